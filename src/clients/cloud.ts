@@ -2,11 +2,14 @@
  * La Marzocco Cloud API Client
  */
 
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosInstance, AxiosProxyConfig, AxiosResponse } from "axios";
 import WebSocket from "ws";
+import { v4 as uuidv4 } from "uuid";
 import {
-  BASE_URL,
   CUSTOMER_APP_URL,
+  WEBSOCKET_URL,
+  REQUEST_TIMEOUT,
+  BackFlushStatus,
   CommandStatus,
   DoseMode,
   PreExtractionMode,
@@ -16,13 +19,41 @@ import {
   WidgetType,
   TOKEN_TIME_TO_REFRESH,
   PENDING_COMMAND_TIMEOUT,
+  COMMAND_POLL_INTERVAL,
+  COMMAND_POLL_TIMEOUT,
+  WEBSOCKET_HEARTBEAT_INCOMING,
+  WEBSOCKET_HEARTBEAT_OUTGOING,
+  WEBSOCKET_HEARTBEAT_TOLERANCE,
+  WEBSOCKET_CONNECT_TIMEOUT,
 } from "../const";
 import {
+  Aborted,
   AuthFail,
+  Forbidden,
+  InvalidResponse,
+  MalformedStompFrame,
+  NetworkTimeout,
+  RateLimited,
+  RequestErrorDetails,
   RequestNotSuccessful,
+  ServerError,
+  ThingNotFound,
+  WebSocketClosed,
+  WebSocketConnectTimeout,
 } from "../exceptions";
 import {
+  BackFlush,
+  BaseWidgetOutput,
+  BrewByWeightDoses,
+  CoffeeBoiler,
+  CommandExpectation,
+  CommandHandle,
+  CommandPollingOptions,
   CommandResponse,
+  MachineStatus,
+  PreExtraction,
+  SteamBoilerLevel,
+  SteamBoilerTemperature,
   Thing,
   ThingDashboardConfig,
   ThingDashboardWebsocketConfig,
@@ -35,154 +66,643 @@ import {
   CoffeeAndFlushTrend,
   LastCoffeeList,
   PrebrewSettingTimes,
+  HeartbeatSettings,
+  ThingWebSocketDetails,
+  WebSocketConnectOptions,
   WebSocketDetails,
+  ValidationMode,
+  Validator,
+  validateModel,
+  thingListValidator,
+  thingDashboardValidator,
+  thingSettingsValidator,
+  thingStatisticsValidator,
+  thingSchedulingSettingsValidator,
+  updateDetailsValidator,
+  coffeeAndFlushTrendValidator,
+  lastCoffeeListValidator,
+  coffeeAndFlushCounterValidator,
+  dashboardWebsocketValidator,
 } from "../models";
 import {
   InstallationKey,
   AccessToken,
   SigninTokenRequest,
   RefreshTokenRequest,
-  generateExtraRequestHeaders,
-  generateRequestProof,
-  getBaseString,
-  getPublicKeyB64,
+  AuthenticationBackend,
+  nodeAuthenticationBackend,
   createAccessToken,
+  ExponentialBackoffPolicy,
+  RequestFailure,
+  RetryAttempt,
+  RetryPolicy,
+  defaultCommandRetryPolicy,
+  defaultRetryPolicy,
+  parseRetryAfter,
+  TokenStore,
+  tokenStoreKey,
+  CredentialProvider,
+  StaticCredentialProvider,
+  AsyncQueue,
+  AsyncQueueOptions,
+  TypedEventEmitter,
+  widgetsToConfig,
+  Logger,
+  noopLogger,
 } from "../util";
-import { isSuccess } from "../util/generic";
 import {
+  abortable,
+  isSuccess,
+  sleep,
+  throwIfAborted,
+} from "../util/generic";
+import {
+  STOMP_HEARTBEAT,
+  StompFrame,
+  StompFrameDecoder,
   encodeStompWsMessage,
-  decodeStompWsMessage,
+  formatHeartbeatHeader,
+  negotiateHeartbeat,
 } from "../util/websocket";
 
+const TIMEOUT_ERROR_CODES = ["ECONNABORTED", "ETIMEDOUT"];
+
+/**
+ * Collect the details of a failed request for error reporting
+ */
+function requestDetails(
+  method: string,
+  url: string,
+  response?: AxiosResponse
+): RequestErrorDetails {
+  return {
+    method,
+    url,
+    status: response?.status ?? null,
+    requestId: response?.headers?.["x-request-id"] ?? null,
+    body: response?.data ?? null,
+  };
+}
+
+/**
+ * Create the error matching the status or network error of a failed request
+ */
+function requestError(
+  message: string,
+  details: RequestErrorDetails,
+  code: string | null = null,
+  retryAfter: number | null = null
+): RequestNotSuccessful {
+  const status = details.status ?? null;
+  if (status === 403) {
+    return new Forbidden(message, details);
+  }
+  if (status === 404) {
+    return new ThingNotFound(message, details);
+  }
+  if (status === 429) {
+    return new RateLimited(message, details, retryAfter);
+  }
+  if (status !== null && status >= 500) {
+    return new ServerError(message, details);
+  }
+  if (status === null && code !== null && TIMEOUT_ERROR_CODES.includes(code)) {
+    return new NetworkTimeout(message, details);
+  }
+  return new RequestNotSuccessful(message, details);
+}
+
+/**
+ * Expect a widget of the dashboard to satisfy a predicate
+ */
+function expectWidget<T extends BaseWidgetOutput>(
+  widgetType: WidgetType,
+  predicate: (widget: T) => boolean
+): CommandExpectation {
+  return (config) => {
+    const widget = config[widgetType] as T | undefined;
+    return widget !== undefined && predicate(widget);
+  };
+}
+
+/**
+ * A command waiting in a machine's command queue
+ */
+interface QueuedCommand {
+  handle: CommandHandle;
+  data?: any;
+  expect?: CommandExpectation;
+  coalesceKey: string | null; // commands with the same key supersede each other
+  signal?: AbortSignal;
+}
+
+/**
+ * Commands of one machine, sent one at a time
+ */
+interface CommandQueue {
+  queued: QueuedCommand[];
+  active: CommandHandle | null;
+}
+
+/**
+ * A machine's dashboard subscription on the shared WebSocket connection
+ */
+interface DashboardSubscription {
+  serialNumber: string;
+  id: string;
+  notificationCallback?: (config: ThingDashboardWebsocketConfig) => void;
+  connectCallback?: () => void;
+  disconnectCallback?: () => void;
+  done: () => void;
+}
+
+/**
+ * Events of the shared WebSocket connection, keyed by machine
+ */
+type WebsocketEvents = {
+  update: (serialNumber: string, config: ThingDashboardWebsocketConfig) => void;
+  unsubscribed: (serialNumber: string) => void;
+};
+
+/**
+ * Timeouts of requests to the cloud in milliseconds, by kind of request
+ */
+export interface RequestTimeouts {
+  request?: number; // reading data
+  command?: number; // sending commands
+  auth?: number; // registration and token requests
+}
+
+/**
+ * A request about to be sent. Hooks may add or change headers.
+ */
+export interface RequestHookContext {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  data?: any;
+}
+
+/**
+ * The outcome of a request, passed to the after-response hook
+ */
+export interface ResponseHookContext extends RequestHookContext {
+  status: number | null; // null if no response was received
+  responseHeaders: Record<string, string>;
+  startedAt: Date;
+  duration: number; // milliseconds
+  error: Error | null;
+}
+
+/**
+ * Options of the cloud client
+ */
+export interface LaMarzoccoCloudClientOptions {
+  httpClient?: AxiosInstance;
+  baseUrl?: string; // customer app API, e.g. a local mock of the cloud
+  websocketUrl?: string;
+  timeouts?: RequestTimeouts;
+  userAgent?: string;
+  logger?: Logger;
+  retryPolicy?: RetryPolicy;
+  commandRetryPolicy?: RetryPolicy;
+  proxy?: AxiosProxyConfig | false; // HTTP requests only
+  validation?: ValidationMode; // checking responses against the models
+  beforeRequest?: (request: RequestHookContext) => void | Promise<void>;
+  afterResponse?: (response: ResponseHookContext) => void | Promise<void>;
+}
+
 /**
  * La Marzocco Cloud Client
  */
 export class LaMarzoccoCloudClient {
   private client: AxiosInstance;
+  private readonly baseUrl: string;
+  private readonly websocketUrl: string;
+  private readonly timeouts: Required<RequestTimeouts>;
+  private readonly userAgent: string | null;
+  private readonly proxy: AxiosProxyConfig | false | undefined;
   private username: string;
-  private password: string;
+  private credentialProvider: CredentialProvider | null;
   private installationKey: InstallationKey;
   private accessToken: AccessToken | null = null;
-  private accessTokenLock = false;
-  private pendingCommands: Map<
-    string,
-    {
-      resolve: (value: CommandResponse) => void;
-      reject: (reason?: any) => void;
-    }
-  > = new Map();
+  private tokenRequest: Promise<AccessToken> | null = null;
+  private signInBackoff = new ExponentialBackoffPolicy({
+    initialDelay: 5000,
+    maxDelay: 300000,
+    jitter: 0,
+  });
+  private signInFailures = 0;
+  private signInError: Error | null = null;
+  private signInBlockedUntil = 0;
+  private pendingCommands: Map<string, CommandHandle> = new Map();
+  private commandQueues: Map<string, CommandQueue> = new Map();
+  private websocketSubscriptions: Map<string, DashboardSubscription> =
+    new Map();
+  private websocketSocket: WebSocket | null = null;
+  private stopWebsocket: (() => void) | null = null;
+  private websocketEvents = new TypedEventEmitter<WebsocketEvents>(
+    (event, error) =>
+      this.logger.warn("Error in websocket listener", { event, error })
+  );
   public websocket: WebSocketDetails = new WebSocketDetails();
+  // Confirm commands by polling the dashboard when no websocket is connected
+  public commandPolling: CommandPollingOptions | null = null;
+  // Retries of idempotent GET requests
+  public retryPolicy: RetryPolicy;
+  // Stricter retries of commands and other non-idempotent requests
+  public commandRetryPolicy: RetryPolicy;
+  // Called before each retry, e.g. for logging
+  public onRetry: ((attempt: RetryAttempt) => void) | null = null;
+  // Persists tokens across client instances, keyed by username and installation
+  public tokenStore: TokenStore | null = null;
+  // Crypto implementation for key handling and request signing
+  public authBackend: AuthenticationBackend = nodeAuthenticationBackend;
+  public logger: Logger;
+  // Strict validation rejects responses not matching the models, lenient
+  // validation logs a warning
+  public validation: ValidationMode;
+  // Called before each request is sent, e.g. to add tracing headers
+  public beforeRequest: LaMarzoccoCloudClientOptions["beforeRequest"] | null;
+  // Called after each request completes or fails, e.g. for metrics
+  public afterResponse: LaMarzoccoCloudClientOptions["afterResponse"] | null;
 
+  /**
+   * Credentials are a password or a provider asked for them whenever the
+   * client has to sign in. Without credentials, only a refresh token
+   * (see fromRefreshToken) or a stored token can authenticate.
+   * An axios instance in place of the options is used as HTTP client.
+   */
   constructor(
     username: string,
-    password: string,
+    credentials: string | CredentialProvider | null,
     installationKey: InstallationKey,
-    client?: AxiosInstance
+    options: LaMarzoccoCloudClientOptions | AxiosInstance = {}
   ) {
-    this.client = client || axios.create();
+    // Axios instances are callable, options objects are not
+    if (typeof options === "function") {
+      options = { httpClient: options };
+    }
+    this.client = options.httpClient || axios.create();
+    this.baseUrl = (options.baseUrl ?? CUSTOMER_APP_URL).replace(/\/+$/, "");
+    this.websocketUrl = options.websocketUrl ?? WEBSOCKET_URL;
+    this.timeouts = {
+      request: options.timeouts?.request ?? REQUEST_TIMEOUT,
+      command: options.timeouts?.command ?? REQUEST_TIMEOUT,
+      auth: options.timeouts?.auth ?? REQUEST_TIMEOUT,
+    };
+    this.userAgent = options.userAgent ?? null;
+    this.proxy = options.proxy;
+    this.logger = options.logger ?? noopLogger;
+    this.validation = options.validation ?? "lenient";
+    this.retryPolicy = options.retryPolicy ?? defaultRetryPolicy();
+    this.commandRetryPolicy =
+      options.commandRetryPolicy ?? defaultCommandRetryPolicy();
+    this.beforeRequest = options.beforeRequest ?? null;
+    this.afterResponse = options.afterResponse ?? null;
     this.username = username;
-    this.password = password;
+    this.credentialProvider =
+      typeof credentials === "string"
+        ? new StaticCredentialProvider(username, credentials)
+        : credentials;
     this.installationKey = installationKey;
   }
 
+  /**
+   * Create a client authenticating with an existing refresh token, asking
+   * the credential provider only if the refresh token is rejected
+   */
+  static fromRefreshToken(
+    username: string,
+    refreshToken: string,
+    installationKey: InstallationKey,
+    credentials: CredentialProvider | null = null,
+    options: LaMarzoccoCloudClientOptions | AxiosInstance = {}
+  ): LaMarzoccoCloudClient {
+    const cloudClient = new LaMarzoccoCloudClient(
+      username,
+      credentials,
+      installationKey,
+      options
+    );
+    // An expired token is refreshed on first use
+    cloudClient.accessToken = { accessToken: "", refreshToken, expiresAt: 0 };
+    return cloudClient;
+  }
+
+  /**
+   * Drop the credential provider, e.g. after the first sign in. Later
+   * authentication relies on the refresh token.
+   */
+  forgetCredentials(): void {
+    this.credentialProvider = null;
+  }
+
   // #region Authentication
 
   /**
    * Register a new client with the API
    */
-  async asyncRegisterClient(): Promise<void> {
+  async asyncRegisterClient(signal?: AbortSignal): Promise<void> {
+    await this.registerInstallationKey(this.installationKey, signal);
+  }
+
+  /**
+   * Register the installation key unless it is already registered.
+   * Returns true if the key was registered now and should be persisted.
+   */
+  async ensureRegistered(signal?: AbortSignal): Promise<boolean> {
+    if (this.installationKey.registeredAt) {
+      return false;
+    }
+    await this.registerInstallationKey(this.installationKey, signal);
+    return true;
+  }
+
+  /**
+   * The installation key in use, including its registration state
+   */
+  get currentInstallationKey(): InstallationKey {
+    return this.installationKey;
+  }
+
+  /**
+   * Replace the installation key with a freshly generated one. The new key
+   * is registered and verified by signing in before the client switches to
+   * it, and is returned for persistence.
+   */
+  async rotateInstallationKey(
+    signal?: AbortSignal
+  ): Promise<InstallationKey> {
+    if (!this.credentialProvider) {
+      throw new AuthFail("No credentials available to verify the new key");
+    }
+
+    const installationKey = await this.authBackend.generateInstallationKey(
+      uuidv4().toLowerCase()
+    );
+    await this.registerInstallationKey(installationKey, signal);
+
+    const { username, password } = await abortable(
+      this.credentialProvider.getCredentials(),
+      signal
+    );
+    const token = await this.asyncGetToken(
+      `${this.baseUrl}/auth/signin`,
+      { username, password },
+      installationKey,
+      signal
+    );
+
+    this.logger.info("Installation key rotated", {
+      installationId: installationKey.installationId,
+    });
+    this.installationKey = installationKey;
+    await this.saveAccessToken(token);
+    return installationKey;
+  }
+
+  /**
+   * Register an installation key with the API
+   */
+  private async registerInstallationKey(
+    installationKey: InstallationKey,
+    signal?: AbortSignal
+  ): Promise<void> {
     const headers = {
-      "X-App-Installation-Id": this.installationKey.installationId,
-      "X-Request-Proof": generateRequestProof(
-        getBaseString(this.installationKey),
-        this.installationKey.secret
+      "X-App-Installation-Id": installationKey.installationId,
+      "X-Request-Proof": await this.authBackend.generateRequestProof(
+        await this.authBackend.getBaseString(installationKey),
+        installationKey.secret
       ),
     };
 
     const body = {
-      pk: getPublicKeyB64(this.installationKey),
+      pk: await this.authBackend.getPublicKeyB64(installationKey),
     };
 
+    const url = `${this.baseUrl}/auth/init`;
     try {
-      const response = await this.client.post(
-        `${CUSTOMER_APP_URL}/auth/init`,
+      const response = await this.sendRequest(
+        "POST",
+        url,
+        headers,
         body,
-        { headers }
+        this.timeouts.auth,
+        signal
       );
 
       if (isSuccess(response)) {
-        console.log("Registration successful.");
+        this.logger.info("Registration successful", {
+          installationId: installationKey.installationId,
+        });
+        installationKey.registeredAt = new Date();
         return;
       }
 
-      if (response.status === 401) {
-        throw new AuthFail("Invalid username or password");
+      this.throwAuthRequestError(url, response);
+    } catch (error) {
+      this.rethrowAuthRequestError(url, error);
+    }
+  }
+
+  /**
+   * When the current access token expires, or null before sign in
+   */
+  get tokenExpiresAt(): Date | null {
+    return this.accessToken?.accessToken
+      ? new Date(this.accessToken.expiresAt * 1000)
+      : null;
+  }
+
+  /**
+   * Get a valid access token, refreshing if necessary. Aborting stops
+   * waiting for the token; a token request shared with other callers
+   * continues.
+   */
+  async asyncGetAccessToken(signal?: AbortSignal): Promise<string> {
+    throwIfAborted(signal);
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      this.accessToken &&
+      this.accessToken.expiresAt >= now + TOKEN_TIME_TO_REFRESH
+    ) {
+      return this.accessToken.accessToken;
+    }
+
+    const acquisition = this.singleFlightToken(async () => {
+      if (!this.accessToken && this.tokenStore) {
+        this.accessToken = await this.loadAccessToken();
       }
 
-      throw new RequestNotSuccessful(
-        `Request to auth endpoint failed with status code ${response.status}`
-      );
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new AuthFail("Invalid username or password");
-        }
-        throw new RequestNotSuccessful(
-          `Request auth to endpoint failed with error: ${error.message}`
+      // Tokens close to or past expiry are refreshed, a stored refresh token
+      // may outlive its access token
+      const current = this.accessToken;
+      if (!current) {
+        return await this.saveAccessToken(await this.asyncSignIn());
+      }
+      const refreshAt = Math.floor(Date.now() / 1000) + TOKEN_TIME_TO_REFRESH;
+      if (current.expiresAt < refreshAt) {
+        return await this.saveAccessToken(
+          await this.asyncRefreshOrSignIn(current)
         );
       }
-      throw error;
+      return current;
+    });
+    const token = await abortable(acquisition, signal);
+    return token.accessToken;
+  }
+
+  /**
+   * Discard an access token rejected by the API and authenticate again
+   */
+  private async asyncRenewAccessToken(
+    rejected: string,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const renew = async (): Promise<AccessToken> => {
+      // Another request may already have renewed the token
+      if (this.accessToken && this.accessToken.accessToken !== rejected) {
+        return this.accessToken;
+      }
+      // The refresh token is kept until renewal succeeds, so a transient
+      // failure does not lose it
+      const previous = this.accessToken;
+      try {
+        return await this.saveAccessToken(
+          await this.asyncRefreshOrSignIn(previous)
+        );
+      } catch (error) {
+        if (error instanceof AuthFail && this.accessToken === previous) {
+          this.accessToken = null;
+        }
+        throw error;
+      }
+    };
+
+    // A token acquisition already in flight may yield the rejected token
+    const token = await abortable(this.singleFlightToken(renew), signal);
+    if (token.accessToken === rejected) {
+      await abortable(this.singleFlightToken(renew), signal);
     }
   }
 
   /**
-   * Get a valid access token, refreshing if necessary
+   * Run a token acquisition unless one is in flight, in which case callers
+   * share its result or failure
    */
-  async asyncGetAccessToken(): Promise<string> {
-    // Simple lock mechanism
-    while (this.accessTokenLock) {
-      await new Promise((resolve) => setTimeout(resolve, 100));
+  private singleFlightToken(
+    acquire: () => Promise<AccessToken>
+  ): Promise<AccessToken> {
+    if (!this.tokenRequest) {
+      this.tokenRequest = acquire().finally(() => {
+        this.tokenRequest = null;
+      });
+    }
+    return this.tokenRequest;
+  }
+
+  /**
+   * Refresh an access token, signing in again if the refresh token is rejected
+   */
+  private async asyncRefreshOrSignIn(
+    previous: AccessToken | null
+  ): Promise<AccessToken> {
+    if (previous) {
+      try {
+        return await this.asyncRefreshToken(previous);
+      } catch (error) {
+        if (!(error instanceof AuthFail)) {
+          throw error;
+        }
+        this.logger.info("Refresh token rejected, signing in again");
+      }
     }
+    return await this.asyncSignIn();
+  }
 
-    this.accessTokenLock = true;
+  /**
+   * Get a new access token via sign in
+   */
+  private async asyncSignIn(): Promise<AccessToken> {
+    // Fail fast while backing off from a failed sign in
+    if (this.signInError && Date.now() < this.signInBlockedUntil) {
+      throw this.signInError;
+    }
 
+    const signInUrl = `${this.baseUrl}/auth/signin`;
+    this.logger.info("Getting new access token", { url: signInUrl });
     try {
-      const now = Math.floor(Date.now() / 1000);
-
-      if (!this.accessToken || this.accessToken.expiresAt < now) {
-        this.accessToken = await this.asyncSignIn();
-      } else if (this.accessToken.expiresAt < now + TOKEN_TIME_TO_REFRESH) {
-        this.accessToken = await this.asyncRefreshToken();
+      if (!this.credentialProvider) {
+        throw new AuthFail("No credentials available to sign in");
       }
+      const { username, password } =
+        await this.credentialProvider.getCredentials();
+      const token = await this.asyncGetToken(signInUrl, { username, password });
+      this.signInFailures = 0;
+      this.signInError = null;
+      return token;
+    } catch (error) {
+      this.signInFailures++;
+      this.signInError = error as Error;
+      this.signInBlockedUntil =
+        Date.now() + (this.signInBackoff.nextDelay(this.signInFailures) ?? 0);
+
+      if (error instanceof AuthFail && this.tokenStore) {
+        // Stored tokens of rejected credentials must not be reused
+        await this.tokenStore
+          .clear(this.tokenStoreKey)
+          .catch((e) =>
+            this.logger.warn("Failed to clear stored tokens", { error: e })
+          );
+      }
+      throw error;
+    }
+  }
 
-      return this.accessToken.accessToken;
-    } finally {
-      this.accessTokenLock = false;
+  /**
+   * Key of this client's tokens in the token store
+   */
+  private get tokenStoreKey(): string {
+    return tokenStoreKey(this.username, this.installationKey.installationId);
+  }
+
+  /**
+   * Load the access token from the token store
+   */
+  private async loadAccessToken(): Promise<AccessToken | null> {
+    try {
+      return (await this.tokenStore?.get(this.tokenStoreKey)) ?? null;
+    } catch (error) {
+      this.logger.warn("Failed to load stored access token", { error });
+      return null;
     }
   }
 
   /**
-   * Get a new access token via sign in
+   * Cache an access token and persist it in the token store
    */
-  private async asyncSignIn(): Promise<AccessToken> {
-    console.log("Getting new access token");
-    return await this.asyncGetToken(`${CUSTOMER_APP_URL}/auth/signin`, {
-      username: this.username,
-      password: this.password,
-    });
+  private async saveAccessToken(token: AccessToken): Promise<AccessToken> {
+    this.accessToken = token;
+    if (this.tokenStore) {
+      try {
+        await this.tokenStore.set(this.tokenStoreKey, token);
+      } catch (error) {
+        this.logger.warn("Failed to store access token", { error });
+      }
+    }
+    return token;
   }
 
   /**
    * Refresh an access token
    */
-  private async asyncRefreshToken(): Promise<AccessToken> {
-    if (!this.accessToken) {
-      throw new Error("No access token available");
-    }
-    console.log("Refreshing access token");
-    return await this.asyncGetToken(`${CUSTOMER_APP_URL}/auth/refreshtoken`, {
+  private async asyncRefreshToken(token: AccessToken): Promise<AccessToken> {
+    const url = `${this.baseUrl}/auth/refreshtoken`;
+    this.logger.debug("Refreshing access token", { url });
+    return await this.asyncGetToken(url, {
       username: this.username,
-      refreshToken: this.accessToken.refreshToken,
+      refreshToken: token.refreshToken,
     });
   }
 
@@ -191,362 +711,1049 @@ export class LaMarzoccoCloudClient {
    */
   private async asyncGetToken(
     url: string,
-    data: SigninTokenRequest | RefreshTokenRequest
+    data: SigninTokenRequest | RefreshTokenRequest,
+    installationKey: InstallationKey = this.installationKey,
+    signal?: AbortSignal
   ): Promise<AccessToken> {
     try {
-      const response = await this.client.post(url, data, {
-        headers: generateExtraRequestHeaders(this.installationKey),
-      });
+      const response = await this.sendRequest(
+        "POST",
+        url,
+        await this.authBackend.generateExtraRequestHeaders(installationKey),
+        data,
+        this.timeouts.auth,
+        signal
+      );
 
       if (isSuccess(response)) {
+        this.logger.debug("Token request successful", {
+          url,
+          status: response.status,
+        });
         const jsonResponse = response.data;
+        if (typeof jsonResponse?.accessToken !== "string") {
+          throw new InvalidResponse(
+            "Auth endpoint response does not contain an access token",
+            requestDetails("POST", url, response)
+          );
+        }
         return createAccessToken(
           jsonResponse.accessToken,
-          jsonResponse.refreshToken
+          jsonResponse.refreshToken,
+          jsonResponse.expiresIn
         );
       }
 
-      if (response.status === 401) {
-        throw new AuthFail("Invalid username or password");
-      }
-
-      throw new RequestNotSuccessful(
-        `Request to auth endpoint failed with status code ${response.status}`
-      );
+      this.throwAuthRequestError(url, response);
     } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new AuthFail("Invalid username or password");
-        }
-        throw new RequestNotSuccessful(
-          `Request auth to endpoint failed with error: ${error.message}`
-        );
+      this.rethrowAuthRequestError(url, error);
+    }
+  }
+
+  /**
+   * Throw the error for an unsuccessful response of an auth endpoint
+   */
+  private throwAuthRequestError(url: string, response: AxiosResponse): never {
+    const details = requestDetails("POST", url, response);
+    if (response.status === 401) {
+      throw new AuthFail("Invalid username or password", details);
+    }
+    throw requestError(
+      `Request to auth endpoint failed with status code ${response.status}`,
+      details,
+      null,
+      parseRetryAfter(response.headers?.["retry-after"])
+    );
+  }
+
+  /**
+   * Convert an axios error of an auth endpoint request, rethrowing others
+   */
+  private rethrowAuthRequestError(url: string, error: unknown): never {
+    if (axios.isAxiosError(error)) {
+      const details = requestDetails("POST", url, error.response);
+      if (error.response?.status === 401) {
+        throw new AuthFail("Invalid username or password", details);
       }
-      throw error;
+      throw requestError(
+        `Request to auth endpoint failed with error: ${error.message}`,
+        details,
+        error.code ?? null,
+        parseRetryAfter(error.response?.headers?.["retry-after"])
+      );
     }
+    throw error;
   }
 
   // #endregion
 
   /**
-   * Wrapper for API calls
+   * Wrapper for API calls, retrying failed requests according to the retry
+   * policy for the method. A rejected access token is renewed once before
+   * the request is retried.
    */
   private async restApiCall(
     url: string,
     method: "GET" | "POST" | "PUT" | "DELETE",
     data?: any,
-    timeout: number = 10000
+    signal?: AbortSignal,
+    timeout: number = method === "GET"
+      ? this.timeouts.request
+      : this.timeouts.command
   ): Promise<any> {
-    const accessToken = await this.asyncGetAccessToken();
-    const headers = {
-      ...generateExtraRequestHeaders(this.installationKey),
-      Authorization: `Bearer ${accessToken}`,
-    };
+    const retryPolicy =
+      method === "GET" ? this.retryPolicy : this.commandRetryPolicy;
+
+    let attempt = 0;
+    let reauthenticated = false;
+    for (;;) {
+      const accessToken = await this.asyncGetAccessToken(signal);
+      const headers = {
+        ...(await this.authBackend.generateExtraRequestHeaders(
+          this.installationKey
+        )),
+        Authorization: `Bearer ${accessToken}`,
+      };
 
-    try {
-      const response = await this.client.request({
+      let failure: RequestFailure;
+      let details: RequestErrorDetails;
+      let message: string;
+      try {
+        const response = await this.sendRequest(
+          method,
+          url,
+          headers,
+          data,
+          timeout,
+          signal
+        );
+
+        if (isSuccess(response)) {
+          this.logger.debug("Request successful", {
+            method,
+            url,
+            status: response.status,
+          });
+          return response.data;
+        }
+
+        failure = {
+          method,
+          url,
+          status: response.status,
+          code: null,
+          retryAfter: parseRetryAfter(response.headers?.["retry-after"]),
+        };
+        details = requestDetails(method, url, response);
+        message = `Request to endpoint ${url} failed with status code ${response.status}`;
+      } catch (error) {
+        if (!axios.isAxiosError(error)) {
+          throw error;
+        }
+        failure = {
+          method,
+          url,
+          status: error.response?.status ?? null,
+          code: error.code ?? null,
+          retryAfter: parseRetryAfter(error.response?.headers?.["retry-after"]),
+        };
+        details = requestDetails(method, url, error.response);
+        message = `Request to endpoint ${url} failed with error: ${error.message}`;
+      }
+
+      if (failure.status === 401) {
+        if (reauthenticated) {
+          throw new AuthFail("Authentication failed.", details);
+        }
+        reauthenticated = true;
+        this.logger.info("Access token rejected, authenticating again", {
+          method,
+          url,
+        });
+        await this.asyncRenewAccessToken(accessToken, signal);
+        continue;
+      }
+
+      attempt++;
+      const delay = retryPolicy.nextDelay(attempt, failure);
+      if (delay === null) {
+        throw requestError(message, details, failure.code, failure.retryAfter);
+      }
+
+      this.logger.warn("Request failed, retrying", {
         method,
         url,
-        data,
-        headers,
-        timeout,
+        status: failure.status,
+        code: failure.code,
+        attempt,
+        delay,
       });
-
-      if (isSuccess(response)) {
-        console.log(`Request to ${url} successful`);
-        return response.data;
+      if (this.onRetry) {
+        this.onRetry({ ...failure, attempt, delay, message });
       }
+      await sleep(delay, signal);
+      throwIfAborted(signal, `Request to ${url} was aborted`);
+    }
+  }
 
-      if (response.status === 401) {
-        throw new AuthFail("Authentication failed.");
-      }
+  /**
+   * Send a request with the configured user agent, proxy and timeout,
+   * passing it through the request hooks. Aborting the signal cancels the
+   * request and rejects with Aborted.
+   */
+  private async sendRequest(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    data: any,
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse> {
+    const abortMessage = `Request to ${url} was aborted`;
+    throwIfAborted(signal, abortMessage);
+
+    const request: RequestHookContext = {
+      method,
+      url,
+      headers: this.userAgent
+        ? { "User-Agent": this.userAgent, ...headers }
+        : { ...headers },
+      data,
+    };
+    if (this.beforeRequest) {
+      await this.beforeRequest(request);
+    }
 
-      throw new RequestNotSuccessful(
-        `Request to endpoint ${url} failed with status code ${response.status}`
-      );
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new AuthFail("Authentication failed.");
+    const startedAt = new Date();
+    let response: AxiosResponse | undefined;
+    let error: Error | null = null;
+    try {
+      const result = await this.client.request({
+        method,
+        url,
+        headers: request.headers,
+        data: request.data,
+        timeout,
+        signal,
+        ...(this.proxy !== undefined ? { proxy: this.proxy } : {}),
+      });
+      response = result;
+      return result;
+    } catch (e) {
+      error =
+        axios.isCancel(e) && signal?.aborted
+          ? new Aborted(abortMessage, signal.reason)
+          : (e as Error);
+      response = axios.isAxiosError(e) ? e.response : undefined;
+      throw error;
+    } finally {
+      if (this.afterResponse) {
+        const outcome: ResponseHookContext = {
+          ...request,
+          status: response?.status ?? null,
+          responseHeaders: { ...response?.headers } as Record<string, string>,
+          startedAt,
+          duration: Date.now() - startedAt.getTime(),
+          error,
+        };
+        // A failing hook must not change the outcome of the request
+        try {
+          await this.afterResponse(outcome);
+        } catch (hookError) {
+          this.logger.warn("After-response hook failed", {
+            method,
+            url,
+            error: hookError,
+          });
         }
-        throw new RequestNotSuccessful(
-          `Request to endpoint ${url} failed with error: ${error.message}`
-        );
       }
-      throw error;
     }
   }
 
+  /**
+   * Check a response against its model according to the validation mode
+   */
+  private validateResponse<T>(
+    validator: Validator<T>,
+    value: unknown,
+    method: string,
+    url: string
+  ): T {
+    return validateModel(validator, value, {
+      mode: this.validation,
+      logger: this.logger,
+      details: { method, url, body: value },
+    });
+  }
+
   // #region Config
 
   /**
    * Get all things (devices) associated with the account
    */
-  async listThings(): Promise<Thing[]> {
-    const url = `${CUSTOMER_APP_URL}/things`;
-    const result = await this.restApiCall(url, "GET");
-    return result as Thing[];
+  async listThings(signal?: AbortSignal): Promise<Thing[]> {
+    const url = `${this.baseUrl}/things`;
+    const result = await this.restApiCall(url, "GET", undefined, signal);
+    return this.validateResponse(thingListValidator, result, "GET", url);
   }
 
   /**
    * Get the dashboard of a thing
    */
-  async getThingDashboard(serialNumber: string): Promise<ThingDashboardConfig> {
-    const url = `${CUSTOMER_APP_URL}/things/${serialNumber}/dashboard`;
-    const result = await this.restApiCall(url, "GET");
-    
+  async getThingDashboard(
+    serialNumber: string,
+    signal?: AbortSignal
+  ): Promise<ThingDashboardConfig> {
+    const url = `${this.baseUrl}/things/${serialNumber}/dashboard`;
+    const result = await this.restApiCall(url, "GET", undefined, signal);
+    const dashboard = this.validateResponse(
+      thingDashboardValidator,
+      result,
+      "GET",
+      url
+    );
+
     // Transform widgets array into config object for easy access
-    const dashboard = result as ThingDashboardConfig;
     if (dashboard.widgets && Array.isArray(dashboard.widgets)) {
-      dashboard.config = {};
-      for (const widget of dashboard.widgets) {
-        if (widget.code && widget.output) {
-          dashboard.config[widget.code] = widget.output;
-        }
-      }
+      dashboard.config = widgetsToConfig(dashboard.widgets);
     }
-    
+
     return dashboard;
   }
 
   /**
    * Get the settings of a thing
    */
-  async getThingSettings(serialNumber: string): Promise<ThingSettings> {
-    const url = `${CUSTOMER_APP_URL}/things/${serialNumber}/settings`;
-    const result = await this.restApiCall(url, "GET");
-    return result as ThingSettings;
+  async getThingSettings(
+    serialNumber: string,
+    signal?: AbortSignal
+  ): Promise<ThingSettings> {
+    const url = `${this.baseUrl}/things/${serialNumber}/settings`;
+    const result = await this.restApiCall(url, "GET", undefined, signal);
+    return this.validateResponse(thingSettingsValidator, result, "GET", url);
   }
 
   /**
    * Get the statistics of a thing
    */
-  async getThingStatistics(serialNumber: string): Promise<ThingStatistics> {
-    const url = `${CUSTOMER_APP_URL}/things/${serialNumber}/stats`;
-    const result = await this.restApiCall(url, "GET");
-    return result as ThingStatistics;
+  async getThingStatistics(
+    serialNumber: string,
+    signal?: AbortSignal
+  ): Promise<ThingStatistics> {
+    const url = `${this.baseUrl}/things/${serialNumber}/stats`;
+    const result = await this.restApiCall(url, "GET", undefined, signal);
+    return this.validateResponse(thingStatisticsValidator, result, "GET", url);
   }
 
   /**
    * Get the firmware settings of a thing
    */
-  async getThingFirmware(serialNumber: string): Promise<UpdateDetails> {
-    const url = `${CUSTOMER_APP_URL}/things/${serialNumber}/update-fw`;
-    const result = await this.restApiCall(url, "GET");
-    return result as UpdateDetails;
+  async getThingFirmware(
+    serialNumber: string,
+    signal?: AbortSignal
+  ): Promise<UpdateDetails> {
+    const url = `${this.baseUrl}/things/${serialNumber}/update-fw`;
+    const result = await this.restApiCall(url, "GET", undefined, signal);
+    return this.validateResponse(updateDetailsValidator, result, "GET", url);
   }
 
   /**
    * Get the schedule of a thing
    */
-  async getThingSchedule(serialNumber: string): Promise<ThingSchedulingSettings> {
-    const url = `${CUSTOMER_APP_URL}/things/${serialNumber}/scheduling`;
-    const result = await this.restApiCall(url, "GET");
-    return result as ThingSchedulingSettings;
+  async getThingSchedule(
+    serialNumber: string,
+    signal?: AbortSignal
+  ): Promise<ThingSchedulingSettings> {
+    const url = `${this.baseUrl}/things/${serialNumber}/scheduling`;
+    const result = await this.restApiCall(url, "GET", undefined, signal);
+    return this.validateResponse(thingSchedulingSettingsValidator, result, "GET", url);
+  }
+
+  /**
+   * Get extended statistics of a thing
+   */
+  private async getThingExtendedStatistics<T>(
+    serialNumber: string,
+    widget: WidgetType,
+    validator: Validator<T>,
+    kwargs?: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    let url = `${this.baseUrl}/things/${serialNumber}/stats/${widget}/1`;
+
+    if (kwargs) {
+      const queryParams = Object.entries(kwargs)
+        .map(([key, value]) => `${key}=${value}`)
+        .join("&");
+      url = `${url}?${queryParams}`;
+    }
+
+    const result = await this.restApiCall(url, "GET", undefined, signal);
+    return this.validateResponse(validator, result?.output, "GET", url);
+  }
+
+  /**
+   * Get coffee and flush trend
+   */
+  async getThingCoffeeAndFlushTrend(
+    serialNumber: string,
+    days: number,
+    timezone: string,
+    signal?: AbortSignal
+  ): Promise<CoffeeAndFlushTrend> {
+    return await this.getThingExtendedStatistics(
+      serialNumber,
+      WidgetType.COFFEE_AND_FLUSH_TREND,
+      coffeeAndFlushTrendValidator,
+      { days, timezone },
+      signal
+    );
+  }
+
+  /**
+   * Get last coffee
+   */
+  async getThingLastCoffee(
+    serialNumber: string,
+    days: number,
+    signal?: AbortSignal
+  ): Promise<LastCoffeeList> {
+    return await this.getThingExtendedStatistics(
+      serialNumber,
+      WidgetType.LAST_COFFEE,
+      lastCoffeeListValidator,
+      { days },
+      signal
+    );
+  }
+
+  /**
+   * Get coffee and flush counter
+   */
+  async getThingCoffeeAndFlushCounter(
+    serialNumber: string,
+    signal?: AbortSignal
+  ): Promise<CoffeeAndFlushCounter> {
+    return await this.getThingExtendedStatistics(
+      serialNumber,
+      WidgetType.COFFEE_AND_FLUSH_COUNTER,
+      coffeeAndFlushCounterValidator,
+      undefined,
+      signal
+    );
+  }
+
+  // #endregion
+
+  // #region WebSocket
+
+  /**
+   * Subscribe to a machine's dashboard for real-time updates.
+   * All machines share one WebSocket connection per client, opened on the
+   * first subscription; heart-beat and reconnect options are taken from the
+   * call that opens it. Resolves once the machine is unsubscribed (or its
+   * signal aborts), the connection is closed with `websocket.disconnect()`,
+   * or the reconnect policy gives up.
+   */
+  async websocketConnect(
+    serialNumber: string,
+    notificationCallback?: (config: ThingDashboardWebsocketConfig) => void,
+    connectCallback?: () => void,
+    disconnectCallback?: () => void,
+    autoReconnect: boolean = true,
+    options: WebSocketConnectOptions = {}
+  ): Promise<void> {
+    if (options.signal?.aborted) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const previous = this.websocketSubscriptions.get(serialNumber);
+      const onAbort = () => this.removeWebsocketSubscription(subscription);
+      const subscription: DashboardSubscription = {
+        serialNumber,
+        id: previous?.id ?? uuidv4(),
+        notificationCallback,
+        connectCallback,
+        disconnectCallback,
+        done: () => {
+          options.signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+
+      // A new subscription for the same machine replaces the previous one
+      this.websocketSubscriptions.set(serialNumber, subscription);
+      previous?.done();
+
+      // Open a connection unless one is active (a closing one is not reused)
+      if (!this.stopWebsocket) {
+        void this.runWebsocketConnection(autoReconnect, options);
+      } else if (this.websocketSocket) {
+        if (!previous) {
+          this.sendWebsocketSubscribe(this.websocketSocket, subscription);
+        }
+        if (connectCallback) {
+          connectCallback();
+        }
+      }
+    });
+  }
+
+  /**
+   * Stream a machine's dashboard updates as an async iterator.
+   * Subscribes the machine if it is not subscribed yet, and unsubscribes
+   * it again when iteration stops. Iteration ends when the signal aborts or
+   * the machine is unsubscribed; slow consumers are handled per the
+   * overflow strategy.
+   */
+  async *dashboardUpdates(
+    serialNumber: string,
+    options: AsyncQueueOptions = {}
+  ): AsyncGenerator<ThingDashboardWebsocketConfig, void, undefined> {
+    const queue = new AsyncQueue<ThingDashboardWebsocketConfig>(options);
+    const offUpdate = this.websocketEvents.on("update", (serial, config) => {
+      if (serial === serialNumber) {
+        queue.push(config);
+      }
+    });
+    const offUnsubscribed = this.websocketEvents.on(
+      "unsubscribed",
+      (serial) => {
+        if (serial === serialNumber) {
+          queue.close();
+        }
+      }
+    );
+
+    // Only removes the subscription if it was opened for this stream
+    const subscriptionController = new AbortController();
+    if (!this.isWebsocketSubscribed(serialNumber)) {
+      void this.websocketConnect(
+        serialNumber,
+        undefined,
+        undefined,
+        undefined,
+        true,
+        { signal: subscriptionController.signal }
+      );
+    }
+
+    try {
+      yield* queue;
+    } finally {
+      offUpdate();
+      offUnsubscribed();
+      queue.close();
+      subscriptionController.abort();
+    }
+  }
+
+  /**
+   * Unsubscribe a machine from the shared WebSocket connection.
+   * The connection is closed once no machine is subscribed.
+   */
+  async websocketUnsubscribe(serialNumber: string): Promise<void> {
+    const subscription = this.websocketSubscriptions.get(serialNumber);
+    if (subscription) {
+      this.removeWebsocketSubscription(subscription);
+    }
+  }
+
+  /**
+   * Check if a machine is subscribed on the shared WebSocket connection
+   */
+  isWebsocketSubscribed(serialNumber: string): boolean {
+    return this.websocketSubscriptions.has(serialNumber);
+  }
+
+  /**
+   * Get a view of the shared WebSocket connection for a single machine
+   */
+  getThingWebsocket(serialNumber: string): ThingWebSocketDetails {
+    return new ThingWebSocketDetails(serialNumber, this);
   }
 
   /**
-   * Get extended statistics of a thing
+   * Remove a subscription, closing the connection after the last one
    */
-  private async getThingExtendedStatistics(
-    serialNumber: string,
-    widget: WidgetType,
-    kwargs?: Record<string, any>
-  ): Promise<any> {
-    let url = `${CUSTOMER_APP_URL}/things/${serialNumber}/stats/${widget}/1`;
+  private removeWebsocketSubscription(
+    subscription: DashboardSubscription
+  ): void {
+    const { serialNumber } = subscription;
+    if (this.websocketSubscriptions.get(serialNumber) !== subscription) {
+      return;
+    }
 
-    if (kwargs) {
-      const queryParams = Object.entries(kwargs)
-        .map(([key, value]) => `${key}=${value}`)
-        .join("&");
-      url = `${url}?${queryParams}`;
+    this.logger.debug("Unsubscribing from websocket", { serialNumber });
+    this.websocketSubscriptions.delete(serialNumber);
+
+    const ws = this.websocketSocket;
+    if (ws) {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(
+          encodeStompWsMessage(StompMessageType.UNSUBSCRIBE, {
+            id: subscription.id,
+          })
+        );
+      }
+      if (subscription.disconnectCallback) {
+        subscription.disconnectCallback();
+      }
     }
+    subscription.done();
+    this.websocketEvents.emit("unsubscribed", serialNumber);
 
-    const result = await this.restApiCall(url, "GET", undefined, 10000);
-    return result.output;
+    if (this.websocketSubscriptions.size === 0 && this.stopWebsocket) {
+      this.stopWebsocket();
+    }
   }
 
   /**
-   * Get coffee and flush trend
+   * Send a SUBSCRIBE frame for a machine's dashboard
    */
-  async getThingCoffeeAndFlushTrend(
-    serialNumber: string,
-    days: number,
-    timezone: string
-  ): Promise<CoffeeAndFlushTrend> {
-    const result = await this.getThingExtendedStatistics(
-      serialNumber,
-      WidgetType.COFFEE_AND_FLUSH_TREND,
-      { days, timezone }
+  private sendWebsocketSubscribe(
+    ws: WebSocket,
+    subscription: DashboardSubscription
+  ): void {
+    this.logger.debug("Subscribing to websocket", {
+      serialNumber: subscription.serialNumber,
+    });
+    ws.send(
+      encodeStompWsMessage(StompMessageType.SUBSCRIBE, {
+        destination: `/ws/sn/${subscription.serialNumber}/dashboard`,
+        ack: "auto",
+        id: subscription.id,
+        "content-length": "0",
+      })
     );
-    return result as CoffeeAndFlushTrend;
   }
 
   /**
-   * Get last coffee
+   * Keep the shared WebSocket connection open, reconnecting per the policy
    */
-  async getThingLastCoffee(
-    serialNumber: string,
-    days: number
-  ): Promise<LastCoffeeList> {
-    const result = await this.getThingExtendedStatistics(
-      serialNumber,
-      WidgetType.LAST_COFFEE,
-      { days }
-    );
-    return result as LastCoffeeList;
-  }
+  private async runWebsocketConnection(
+    autoReconnect: boolean,
+    options: WebSocketConnectOptions
+  ): Promise<void> {
+    const heartbeat: HeartbeatSettings = {
+      outgoing: options.heartbeat?.outgoing ?? WEBSOCKET_HEARTBEAT_OUTGOING,
+      incoming: options.heartbeat?.incoming ?? WEBSOCKET_HEARTBEAT_INCOMING,
+    };
+    const heartbeatWindow =
+      heartbeat.incoming > 0
+        ? heartbeat.incoming * WEBSOCKET_HEARTBEAT_TOLERANCE
+        : WEBSOCKET_CONNECT_TIMEOUT;
+    // A server that accepts the socket but never answers is treated like
+    // one that goes silent on an established connection
+    const connectTimeout = options.connectTimeout ?? heartbeatWindow;
+    const reconnectPolicy =
+      options.reconnectPolicy ?? new ExponentialBackoffPolicy();
+
+    // Aborted on an intentional disconnect. Subscriptions added after that
+    // belong to the next connection.
+    const stopController = new AbortController();
+    const stopSignal = stopController.signal;
+    let stoppedSubscriptions: DashboardSubscription[] = [];
+    let ws: WebSocket | null = null;
+
+    const stop = () => {
+      if (stopSignal.aborted) {
+        return;
+      }
+      stoppedSubscriptions = [...this.websocketSubscriptions.values()];
+      stopController.abort();
+      if (this.stopWebsocket === stop) {
+        this.stopWebsocket = null;
+      }
+      if (ws && this.websocketSocket === ws) {
+        this.websocketSocket = null;
+      }
+      if (ws && ws.readyState === WebSocket.OPEN) {
+        for (const subscription of stoppedSubscriptions) {
+          ws.send(
+            encodeStompWsMessage(StompMessageType.UNSUBSCRIBE, {
+              id: subscription.id,
+            })
+          );
+        }
+      }
+      ws?.close();
+    };
+    this.stopWebsocket = stop;
 
-  /**
-   * Get coffee and flush counter
-   */
-  async getThingCoffeeAndFlushCounter(
-    serialNumber: string
-  ): Promise<CoffeeAndFlushCounter> {
-    const result = await this.getThingExtendedStatistics(
-      serialNumber,
-      WidgetType.COFFEE_AND_FLUSH_COUNTER
-    );
-    return result as CoffeeAndFlushCounter;
-  }
+    let attempt = 0;
+    let lastError: Error | null = null;
 
-  // #endregion
+    try {
+      while (!stopSignal.aborted) {
+        try {
+          const accessToken = await this.asyncGetAccessToken();
+          if (stopSignal.aborted) {
+            break;
+          }
 
-  // #region WebSocket
+          const socket = new WebSocket(this.websocketUrl, {
+            headers: {
+              ...(this.userAgent ? { "User-Agent": this.userAgent } : {}),
+              ...(await this.authBackend.generateExtraRequestHeaders(
+                this.installationKey
+              )),
+            },
+          });
+          ws = socket;
+          const decoder = new StompFrameDecoder();
+
+          const details = await this.setupWebsocketConnection(
+            socket,
+            decoder,
+            heartbeat,
+            connectTimeout,
+            accessToken,
+            stop
+          );
+          if (stopSignal.aborted) {
+            break;
+          }
+          const stopHeartbeat = this.startWebsocketHeartbeat(socket, details);
 
-  /**
-   * Connect to the machine's WebSocket for real-time updates
-   */
-  async websocketConnect(
-    serialNumber: string,
-    notificationCallback?: (config: ThingDashboardWebsocketConfig) => void,
-    connectCallback?: () => void,
-    disconnectCallback?: () => void,
-    autoReconnect: boolean = true
-  ): Promise<void> {
-    while (autoReconnect) {
-      try {
-        const ws = new WebSocket(`wss://${BASE_URL}/ws/connect`, {
-          headers: generateExtraRequestHeaders(this.installationKey),
-        });
+          if (attempt > 0) {
+            options.onReconnected?.(attempt);
+          }
+          lastError = null;
+          // Reconnects keep backing off until a connection stays up for a
+          // heart-beat window, so a server dropping every connection right
+          // away still exhausts the policy
+          const healthyTimer = setTimeout(() => {
+            attempt = 0;
+          }, heartbeatWindow);
+
+          // (Re)subscribe every machine on the new connection
+          this.websocketSocket = socket;
+          for (const subscription of this.websocketSubscriptions.values()) {
+            this.sendWebsocketSubscribe(socket, subscription);
+            if (subscription.connectCallback) {
+              subscription.connectCallback();
+            }
+          }
 
-        await this.setupWebsocketConnection(ws, serialNumber);
+          socket.on("message", (data: WebSocket.Data) => {
+            details.lastMessageAt = new Date();
+            this.handleWebsocketMessage(data, decoder);
+          });
 
-        if (connectCallback) {
-          connectCallback();
-        }
+          // Frames that arrived in the same message as CONNECTED
+          this.handleWebsocketMessage(null, decoder);
 
-        ws.on("message", (data: WebSocket.Data) => {
-          this.handleWebsocketMessage(data, notificationCallback);
-        });
+          socket.on("error", (error: Error) => {
+            this.logger.error("WebSocket error", { error });
+            lastError = error;
+          });
 
-        ws.on("close", () => {
-          console.log("WebSocket closed");
-          if (disconnectCallback) {
-            disconnectCallback();
+          // Wait for close
+          await new Promise<void>((resolve) => {
+            socket.on("close", (code: number, reason: Buffer) => {
+              this.logger.info("WebSocket closed", {
+                code,
+                reason: reason.toString(),
+              });
+              stopHeartbeat();
+              clearTimeout(healthyTimer);
+              if (this.websocketSocket === socket) {
+                this.websocketSocket = null;
+              }
+              if (!stopSignal.aborted) {
+                lastError =
+                  lastError ?? new WebSocketClosed(code, reason.toString());
+              }
+              const subscriptions = stopSignal.aborted
+                ? stoppedSubscriptions
+                : [...this.websocketSubscriptions.values()];
+              for (const subscription of subscriptions) {
+                if (subscription.disconnectCallback) {
+                  subscription.disconnectCallback();
+                }
+              }
+              resolve();
+            });
+          });
+        } catch (error) {
+          if (stopSignal.aborted) {
+            break;
           }
-        });
+          this.logger.error("WebSocket connection error", { error, attempt });
+          lastError = error instanceof Error ? error : new Error(String(error));
+        }
 
-        ws.on("error", (error: Error) => {
-          console.error("WebSocket error:", error);
-        });
+        if (stopSignal.aborted || !autoReconnect) {
+          break;
+        }
 
-        // Wait for close
-        await new Promise<void>((resolve) => {
-          ws.on("close", () => resolve());
-        });
-      } catch (error) {
-        console.error("WebSocket connection error:", error);
-        if (!autoReconnect) {
+        attempt++;
+        const delay = reconnectPolicy.nextDelay(attempt, lastError);
+        if (delay === null) {
+          this.logger.warn("Giving up reconnecting websocket", {
+            attempts: attempt - 1,
+            error: lastError,
+          });
+          options.onReconnectFailed?.({ attempt, delay, lastError });
           break;
         }
-        // Wait before reconnecting
-        await new Promise((resolve) => setTimeout(resolve, 5000));
+
+        this.logger.info("Reconnecting websocket", { attempt, delay });
+        options.onReconnecting?.({ attempt, delay, lastError });
+        await sleep(delay, stopSignal);
+      }
+    } finally {
+      if (this.stopWebsocket === stop) {
+        this.stopWebsocket = null;
+      }
+
+      // End the subscriptions served by this connection
+      const ended = stopSignal.aborted
+        ? stoppedSubscriptions
+        : [...this.websocketSubscriptions.values()];
+      for (const subscription of ended) {
+        const { serialNumber } = subscription;
+        if (this.websocketSubscriptions.get(serialNumber) === subscription) {
+          this.websocketSubscriptions.delete(serialNumber);
+        }
+        subscription.done();
+        this.websocketEvents.emit("unsubscribed", serialNumber);
       }
     }
   }
 
   /**
-   * Setup WebSocket connection (connect and subscribe)
+   * Setup WebSocket connection (send CONNECT and wait for CONNECTED). The
+   * socket is terminated if CONNECTED does not arrive within the timeout.
    */
   private async setupWebsocketConnection(
     ws: WebSocket,
-    serialNumber: string
-  ): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      const accessToken = await this.asyncGetAccessToken();
-
+    decoder: StompFrameDecoder,
+    heartbeat: HeartbeatSettings,
+    connectTimeout: number,
+    accessToken: string,
+    stop: () => void
+  ): Promise<WebSocketDetails> {
+    return new Promise((resolve, reject) => {
       const connectMsg = encodeStompWsMessage(StompMessageType.CONNECT, {
-        host: BASE_URL,
+        host: new URL(this.websocketUrl).host,
         "accept-version": "1.2,1.1,1.0",
-        "heart-beat": "0,0",
+        "heart-beat": formatHeartbeatHeader(heartbeat),
         Authorization: `Bearer ${accessToken}`,
       });
 
+      const timer =
+        connectTimeout > 0
+          ? setTimeout(() => {
+              this.logger.warn("Timed out connecting to websocket", {
+                url: this.websocketUrl,
+                connectTimeout,
+              });
+              ws.removeListener("message", messageHandler);
+              ws.removeListener("close", closeHandler);
+              reject(new WebSocketConnectTimeout(connectTimeout));
+              ws.terminate();
+            }, connectTimeout)
+          : null;
+      const fail = (error: Error) => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        reject(error);
+      };
+
       ws.on("open", () => {
-        console.log("Connecting to websocket.");
+        this.logger.info("Connecting to websocket", { url: this.websocketUrl });
         ws.send(connectMsg);
       });
 
-      // Wait for CONNECTED message
+      const onConnected = (frame: StompFrame) => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        const negotiated = negotiateHeartbeat(
+          heartbeat,
+          frame.headers["heart-beat"]
+        );
+
+        const disconnectWebsocket = async () => {
+          this.logger.info("Disconnecting websocket");
+          stop();
+        };
+
+        const details = new WebSocketDetails(
+          ws,
+          disconnectWebsocket,
+          negotiated
+        );
+        details.lastMessageAt = new Date();
+        this.websocket = details;
+        ws.removeListener("message", messageHandler);
+        ws.removeListener("close", closeHandler);
+        resolve(details);
+      };
+
+      // Wait for CONNECTED frame, leaving any later frames in the decoder
       const messageHandler = (data: WebSocket.Data) => {
-        const { msgType } = decodeStompWsMessage(data.toString());
-        if (msgType === StompMessageType.CONNECTED) {
-          console.log("Subscribing to websocket.");
-          const subscriptionId = require("crypto").randomUUID();
-          const subscribeMsg = encodeStompWsMessage(StompMessageType.SUBSCRIBE, {
-            destination: `/ws/sn/${serialNumber}/dashboard`,
-            ack: "auto",
-            id: subscriptionId,
-            "content-length": "0",
-          });
-          ws.send(subscribeMsg);
-
-          const disconnectWebsocket = async () => {
-            console.log("Disconnecting websocket");
-            if (ws.readyState === WebSocket.OPEN) {
-              const disconnectMsg = encodeStompWsMessage(
-                StompMessageType.UNSUBSCRIBE,
-                { id: subscriptionId }
-              );
-              ws.send(disconnectMsg);
-              ws.close();
+        try {
+          decoder.push(data);
+          let frame: StompFrame | null;
+          while ((frame = decoder.read()) !== null) {
+            if (frame.msgType === StompMessageType.CONNECTED) {
+              onConnected(frame);
+              return;
             }
-          };
-
-          this.websocket = new WebSocketDetails(ws, disconnectWebsocket);
+          }
+        } catch (error) {
           ws.removeListener("message", messageHandler);
-          resolve();
+          ws.close();
+          fail(error as Error);
         }
       };
 
+      const closeHandler = (code: number, reason: Buffer) => {
+        fail(new WebSocketClosed(code, reason.toString()));
+      };
+
       ws.on("message", messageHandler);
-      ws.on("error", reject);
+      ws.on("close", closeHandler);
+      ws.on("error", fail);
     });
   }
 
   /**
-   * Handle incoming WebSocket message
+   * Send heart-beats and watch for a silent server on an established connection
+   */
+  private startWebsocketHeartbeat(
+    ws: WebSocket,
+    details: WebSocketDetails
+  ): () => void {
+    const { outgoing, incoming } = details.heartbeat;
+    const timers: NodeJS.Timeout[] = [];
+    let pingSentAt: number | null = null;
+
+    const onPong = () => {
+      if (pingSentAt !== null) {
+        details.latency = Date.now() - pingSentAt;
+        pingSentAt = null;
+      }
+    };
+    ws.on("pong", onPong);
+
+    if (outgoing > 0) {
+      timers.push(
+        setInterval(() => {
+          if (ws.readyState !== WebSocket.OPEN) {
+            return;
+          }
+          ws.send(STOMP_HEARTBEAT);
+          if (pingSentAt === null) {
+            pingSentAt = Date.now();
+            ws.ping();
+          }
+        }, outgoing)
+      );
+    }
+
+    if (incoming > 0) {
+      const maxSilence = incoming * WEBSOCKET_HEARTBEAT_TOLERANCE;
+      timers.push(
+        setInterval(() => {
+          const lastMessageAt = details.lastMessageAt?.getTime() ?? 0;
+          if (Date.now() - lastMessageAt > maxSilence) {
+            this.logger.warn("No data received on websocket, reconnecting", {
+              maxSilence,
+            });
+            ws.terminate();
+          }
+        }, incoming)
+      );
+    }
+
+    return () => {
+      for (const timer of timers) {
+        clearInterval(timer);
+      }
+      ws.removeListener("pong", onPong);
+    };
+  }
+
+  /**
+   * Handle incoming WebSocket message, which may carry zero or more frames
    */
   private handleWebsocketMessage(
-    data: WebSocket.Data,
-    notificationCallback?: (config: ThingDashboardWebsocketConfig) => void
+    data: WebSocket.Data | null,
+    decoder: StompFrameDecoder
   ): void {
+    let frames: StompFrame[];
     try {
-      const { msgType, data: messageData } = decodeStompWsMessage(
-        data.toString()
-      );
+      if (data !== null) {
+        decoder.push(data);
+      }
+      frames = decoder.readAll();
+    } catch (error) {
+      if (error instanceof MalformedStompFrame) {
+        this.logger.warn("Discarding malformed websocket frame", {
+          error: error.message,
+        });
+        return;
+      }
+      throw error;
+    }
+
+    for (const frame of frames) {
+      this.handleWebsocketFrame(frame);
+    }
+  }
 
-      if (msgType === StompMessageType.ERROR) {
-        console.warn("Websocket error message:", messageData);
-      } else if (msgType === StompMessageType.MESSAGE) {
-        this.parseWebsocketMessage(messageData, notificationCallback);
+  /**
+   * Handle a single decoded STOMP frame
+   */
+  private handleWebsocketFrame(frame: StompFrame): void {
+    try {
+      if (frame.msgType === StompMessageType.ERROR) {
+        this.logger.warn("Websocket error message", {
+          message: frame.headers.message,
+          body: frame.data,
+        });
+      } else if (frame.msgType === StompMessageType.MESSAGE) {
+        const subscription = this.findWebsocketSubscription(frame.headers);
+        if (!subscription) {
+          this.logger.warn("Message for unknown subscription", {
+            destination: frame.headers.destination,
+          });
+          return;
+        }
+        this.parseWebsocketMessage(frame.data, subscription);
       } else {
-        console.warn("Non MESSAGE-type message:", data.toString());
+        this.logger.warn("Non MESSAGE-type message", {
+          msgType: frame.msgType,
+        });
       }
     } catch (error) {
-      console.warn("Error parsing websocket message:", error);
+      this.logger.warn("Error parsing websocket message", { error });
+    }
+  }
+
+  /**
+   * Find the subscription a MESSAGE frame belongs to
+   */
+  private findWebsocketSubscription(
+    headers: Record<string, string>
+  ): DashboardSubscription | null {
+    for (const subscription of this.websocketSubscriptions.values()) {
+      if (subscription.id === headers.subscription) {
+        return subscription;
+      }
     }
+
+    const match = /^\/ws\/sn\/([^/]+)\/dashboard$/.exec(
+      headers.destination ?? ""
+    );
+    return (match && this.websocketSubscriptions.get(match[1])) || null;
   }
 
   /**
@@ -554,37 +1761,34 @@ export class LaMarzoccoCloudClient {
    */
   private parseWebsocketMessage(
     message: string | null,
-    notificationCallback?: (config: ThingDashboardWebsocketConfig) => void
+    subscription: DashboardSubscription
   ): void {
     if (!message) {
       return;
     }
 
-    const config: ThingDashboardWebsocketConfig = JSON.parse(message);
+    const config = this.validateResponse(
+      dashboardWebsocketValidator,
+      JSON.parse(message),
+      "MESSAGE",
+      this.websocketUrl
+    );
 
     // Transform widgets array into config object for easy access
     if (config.widgets && Array.isArray(config.widgets)) {
-      config.config = {};
-      for (const widget of config.widgets) {
-        if (widget.code && widget.output) {
-          config.config[widget.code] = widget.output;
-        }
-      }
+      config.config = widgetsToConfig(config.widgets);
     }
 
     // Notify if there is a result for a pending command
     for (const command of config.commands || []) {
-      const pending = this.pendingCommands.get(command.id);
-      if (pending) {
-        pending.resolve(command);
-        this.pendingCommands.delete(command.id);
-      }
+      this.pendingCommands.get(command.id)?.update(command);
     }
 
     // Notify external listeners
-    if (notificationCallback) {
-      notificationCallback(config);
+    if (subscription.notificationCallback) {
+      subscription.notificationCallback(config);
     }
+    this.websocketEvents.emit("update", subscription.serialNumber, config);
   }
 
   // #endregion
@@ -592,268 +1796,591 @@ export class LaMarzoccoCloudClient {
   // #region Commands
 
   /**
-   * Execute a command on a machine
+   * Queue a command for a machine. Commands to one machine are sent one at a
+   * time; a queued command is superseded by a later one with the same
+   * coalesce key. Aborting the signal drops a queued command, or cancels the
+   * request and confirmation of a sent one.
    */
-  private async executeCommand(
+  private executeCommand(
     serialNumber: string,
     command: string,
-    data?: any
-  ): Promise<boolean> {
-    const response = await this.restApiCall(
-      `${CUSTOMER_APP_URL}/things/${serialNumber}/command/${command}`,
-      "POST",
-      data
-    );
+    data?: any,
+    expect?: CommandExpectation,
+    coalesce = false,
+    signal?: AbortSignal
+  ): CommandHandle {
+    const handle = new CommandHandle(serialNumber, command, this.logger);
+    if (signal) {
+      if (signal.aborted) {
+        handle.abort(signal.reason);
+        return handle;
+      }
+      const onAbort = () => {
+        this.logger.debug("Command aborted", {
+          serialNumber,
+          command,
+          commandId: handle.id,
+        });
+        handle.abort(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+      handle.on("settled", () =>
+        signal.removeEventListener("abort", onAbort)
+      );
+    }
+    const coalesceKey = coalesce
+      ? `${command}:${data?.boilerIndex ?? ""}`
+      : null;
+
+    let queue = this.commandQueues.get(serialNumber);
+    if (!queue) {
+      queue = { queued: [], active: null };
+      this.commandQueues.set(serialNumber, queue);
+    }
+
+    if (coalesceKey) {
+      for (const entry of [...queue.queued]) {
+        if (entry.coalesceKey === coalesceKey) {
+          this.logger.debug("Command superseded", {
+            serialNumber,
+            command,
+          });
+          entry.handle.cancel("superseded");
+        }
+      }
+    }
+
+    const entry: QueuedCommand = { handle, data, expect, coalesceKey, signal };
+    queue.queued.push(entry);
+    this.logger.debug("Command queued", {
+      serialNumber,
+      command,
+      queueDepth: this.getCommandQueueDepth(serialNumber),
+    });
+    handle.on("settled", () => {
+      const current = this.commandQueues.get(serialNumber);
+      const index = current ? current.queued.indexOf(entry) : -1;
+      if (current && index !== -1) {
+        current.queued.splice(index, 1);
+      }
+    });
+
+    if (!queue.active) {
+      void this.processCommandQueue(serialNumber, queue);
+    }
+    return handle;
+  }
+
+  /**
+   * Send queued commands of a machine until its queue is empty
+   */
+  private async processCommandQueue(
+    serialNumber: string,
+    queue: CommandQueue
+  ): Promise<void> {
+    let entry: QueuedCommand | undefined;
+    while ((entry = queue.queued.shift()) !== undefined) {
+      const { handle, data, expect, signal } = entry;
+      queue.active = handle;
+      try {
+        await this.sendCommand(handle, data, expect, signal);
+      } catch (error) {
+        handle.fail(error as Error);
+      }
+      // Wait for the command to settle before sending the next one
+      await handle.result.catch(() => undefined);
+    }
+
+    queue.active = null;
+    if (this.commandQueues.get(serialNumber) === queue) {
+      this.commandQueues.delete(serialNumber);
+    }
+  }
 
-    const cr: CommandResponse = response[0];
+  /**
+   * Number of commands to a machine that are queued or awaiting confirmation
+   */
+  getCommandQueueDepth(serialNumber: string): number {
+    const queue = this.commandQueues.get(serialNumber);
+    if (!queue) {
+      return 0;
+    }
+    const active = queue.active && !queue.active.done ? 1 : 0;
+    return queue.queued.length + active;
+  }
+
+  /**
+   * Cancel all commands to a machine that are queued or awaiting
+   * confirmation. Returns the number of cancelled commands.
+   */
+  cancelCommands(serialNumber: string): number {
+    const queue = this.commandQueues.get(serialNumber);
+    if (!queue) {
+      return 0;
+    }
+    const handles = queue.queued.map((entry) => entry.handle);
+    if (queue.active && !queue.active.done) {
+      handles.push(queue.active);
+    }
+    for (const handle of handles) {
+      handle.cancel();
+    }
+    return handles.length;
+  }
+
+  /**
+   * Send a command and track its confirmation
+   */
+  private async sendCommand(
+    handle: CommandHandle,
+    data?: any,
+    expect?: CommandExpectation,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const url = `${this.baseUrl}/things/${handle.serialNumber}/command/${handle.command}`;
+    const response = await this.restApiCall(url, "POST", data, signal);
+
+    const cr: CommandResponse | undefined = Array.isArray(response)
+      ? response[0]
+      : undefined;
+    if (!cr || typeof cr.id !== "string") {
+      throw new InvalidResponse(
+        `Response to command ${handle.command} does not contain a command id`,
+        { method: "POST", url, body: response }
+      );
+    }
+    this.logger.debug("Command accepted", {
+      serialNumber: handle.serialNumber,
+      command: handle.command,
+      commandId: cr.id,
+    });
+    handle.accepted(cr);
+    if (handle.done) {
+      return;
+    }
 
-    // If websocket is not connected, return success immediately
-    if (!this.websocket.connected) {
-      return true;
+    if (
+      !this.websocket.connected ||
+      !this.isWebsocketSubscribed(handle.serialNumber)
+    ) {
+      if (this.commandPolling) {
+        await this.pollCommandConfirmation(
+          handle,
+          cr,
+          this.commandPolling,
+          expect,
+          signal
+        );
+      } else {
+        // Without a websocket or polling, assume success without confirmation
+        handle.resolveUnconfirmed();
+      }
+      return;
     }
 
     // Wait for command confirmation via websocket
-    return new Promise<boolean>((resolve, reject) => {
-      const commandTimeout = setTimeout(() => {
-        this.pendingCommands.delete(cr.id);
-        console.log("Timed out waiting for websocket confirmation");
-        resolve(false);
-      }, PENDING_COMMAND_TIMEOUT);
-
-      this.pendingCommands.set(cr.id, {
-        resolve: (result: CommandResponse) => {
-          clearTimeout(commandTimeout);
-          if (result.status === CommandStatus.SUCCESS) {
-            resolve(true);
-          } else {
-            console.log(
-              `Command to ${command} failed with status ${result.status}, error_details: ${result.errorCode || ""}`
-            );
-            resolve(false);
-          }
-        },
-        reject,
+    const commandTimeout = setTimeout(() => {
+      this.pendingCommands.delete(cr.id);
+      this.logger.warn("Timed out waiting for websocket confirmation", {
+        serialNumber: handle.serialNumber,
+        command: handle.command,
+        commandId: cr.id,
       });
+      handle.timeout();
+    }, PENDING_COMMAND_TIMEOUT);
+
+    this.pendingCommands.set(cr.id, handle);
+    handle.on("settled", (succeeded) => {
+      clearTimeout(commandTimeout);
+      this.pendingCommands.delete(cr.id);
+      if (!succeeded && handle.status === CommandStatus.ERROR) {
+        this.logger.warn("Command failed", {
+          serialNumber: handle.serialNumber,
+          command: handle.command,
+          commandId: cr.id,
+          status: handle.status,
+          errorCode: handle.errorCode,
+        });
+      }
     });
   }
 
+  /**
+   * Poll the dashboard until it reports the command result or reflects the
+   * expected widget state
+   */
+  private async pollCommandConfirmation(
+    handle: CommandHandle,
+    cr: CommandResponse,
+    options: CommandPollingOptions,
+    expect?: CommandExpectation,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const interval = options.interval ?? COMMAND_POLL_INTERVAL;
+    const deadline = Date.now() + (options.timeout ?? COMMAND_POLL_TIMEOUT);
+
+    while (!handle.done) {
+      await sleep(
+        Math.max(0, Math.min(interval, deadline - Date.now())),
+        signal
+      );
+      if (handle.done) {
+        return;
+      }
+
+      try {
+        const dashboard = await this.getThingDashboard(
+          handle.serialNumber,
+          signal
+        );
+        const result = dashboard.commands?.find((c) => c.id === cr.id);
+        if (result) {
+          handle.update(result);
+        } else if (expect && expect(dashboard.config)) {
+          handle.update({ ...cr, status: CommandStatus.SUCCESS });
+        } else if (!expect && !dashboard.commands) {
+          // No widget reflects the command and the dashboard does not list
+          // command results, so it cannot be confirmed
+          handle.resolveUnconfirmed();
+        }
+      } catch (error) {
+        if (handle.done) {
+          return;
+        }
+        this.logger.warn("Polling dashboard for command failed", {
+          serialNumber: handle.serialNumber,
+          command: handle.command,
+          commandId: cr.id,
+          error,
+        });
+      }
+
+      if (!handle.done && Date.now() >= deadline) {
+        this.logger.warn("Timed out waiting for dashboard confirmation", {
+          serialNumber: handle.serialNumber,
+          command: handle.command,
+          commandId: cr.id,
+        });
+        handle.timeout();
+      }
+    }
+  }
+
   /**
    * Turn machine power on or off
    */
-  async setPower(serialNumber: string, enabled: boolean): Promise<boolean> {
+  setPower(
+    serialNumber: string,
+    enabled: boolean,
+    signal?: AbortSignal
+  ): CommandHandle {
     const mode = enabled ? "BrewingMode" : "StandBy";
     const data = { mode };
-    return await this.executeCommand(serialNumber, "CoffeeMachineChangeMode", data);
+    return this.executeCommand(
+      serialNumber,
+      "CoffeeMachineChangeMode",
+      data,
+      expectWidget<MachineStatus>(
+        WidgetType.CM_MACHINE_STATUS,
+        (status) => status.mode === mode
+      ),
+      false,
+      signal
+    );
   }
 
   /**
    * Turn steam boiler on or off
    */
-  async setSteam(
+  setSteam(
     serialNumber: string,
     enabled: boolean,
-    boilerIndex: number = 1
-  ): Promise<boolean> {
+    boilerIndex: number = 1,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = {
       boilerIndex,
       enabled,
     };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineSettingSteamBoilerEnabled",
-      data
+      data,
+      (config) =>
+        expectWidget<SteamBoilerLevel>(
+          WidgetType.CM_STEAM_BOILER_LEVEL,
+          (boiler) => boiler.enabled === enabled
+        )(config) ||
+        expectWidget<SteamBoilerTemperature>(
+          WidgetType.CM_STEAM_BOILER_TEMPERATURE,
+          (boiler) => boiler.enabled === enabled
+        )(config),
+      false,
+      signal
     );
   }
 
   /**
    * Set steam boiler target level
    */
-  async setSteamTargetLevel(
+  setSteamTargetLevel(
     serialNumber: string,
     targetLevel: SteamTargetLevel,
-    boilerIndex: number = 1
-  ): Promise<boolean> {
+    boilerIndex: number = 1,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = {
       boilerIndex,
       targetLevel: targetLevel.toString(),
     };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineSettingSteamBoilerTargetLevel",
-      data
+      data,
+      expectWidget<SteamBoilerLevel>(
+        WidgetType.CM_STEAM_BOILER_LEVEL,
+        (boiler) => boiler.targetLevel === targetLevel
+      ),
+      true,
+      signal
     );
   }
 
   /**
    * Set coffee boiler target temperature
    */
-  async setCoffeeTargetTemperature(
+  setCoffeeTargetTemperature(
     serialNumber: string,
     targetTemperature: number,
-    boilerIndex: number = 1
-  ): Promise<boolean> {
+    boilerIndex: number = 1,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = {
       boilerIndex,
       targetTemperature: Math.round(targetTemperature * 10) / 10,
     };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineSettingCoffeeBoilerTargetTemperature",
-      data
+      data,
+      expectWidget<CoffeeBoiler>(
+        WidgetType.CM_COFFEE_BOILER,
+        (boiler) => boiler.targetTemperature === data.targetTemperature
+      ),
+      true,
+      signal
     );
   }
 
   /**
    * Set steam boiler target temperature
    */
-  async setSteamTargetTemperature(
+  setSteamTargetTemperature(
     serialNumber: string,
     targetTemperature: number,
-    boilerIndex: number = 1
-  ): Promise<boolean> {
+    boilerIndex: number = 1,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = {
       boilerIndex,
       targetTemperature: Math.round(targetTemperature * 10) / 10,
     };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineSettingSteamBoilerTargetTemperature",
-      data
+      data,
+      expectWidget<SteamBoilerTemperature>(
+        WidgetType.CM_STEAM_BOILER_TEMPERATURE,
+        (boiler) => boiler.targetTemperature === data.targetTemperature
+      ),
+      true,
+      signal
     );
   }
 
   /**
    * Start backflush cleaning
    */
-  async startBackflushCleaning(serialNumber: string): Promise<boolean> {
+  startBackflushCleaning(
+    serialNumber: string,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = { enabled: true };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineBackFlushStartCleaning",
-      data
+      data,
+      expectWidget<BackFlush>(
+        WidgetType.CM_BACK_FLUSH,
+        (backFlush) => backFlush.status !== BackFlushStatus.OFF
+      ),
+      false,
+      signal
     );
   }
 
   /**
    * Change pre-extraction mode
    */
-  async changePreExtractionMode(
+  changePreExtractionMode(
     serialNumber: string,
-    prebrewMode: PreExtractionMode
-  ): Promise<boolean> {
+    prebrewMode: PreExtractionMode,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = {
       mode: prebrewMode.toString(),
     };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachinePreBrewingChangeMode",
-      data
+      data,
+      expectWidget<PreExtraction>(
+        WidgetType.CM_PRE_EXTRACTION,
+        (preExtraction) => preExtraction.mode === prebrewMode
+      ),
+      false,
+      signal
     );
   }
 
   /**
    * Change pre-extraction times
    */
-  async changePreExtractionTimes(
+  changePreExtractionTimes(
     serialNumber: string,
-    times: PrebrewSettingTimes
-  ): Promise<boolean> {
-    return await this.executeCommand(
+    times: PrebrewSettingTimes,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachinePreBrewingSettingTimes",
-      times
+      times,
+      undefined,
+      false,
+      signal
     );
   }
 
   /**
    * Set smart standby
    */
-  async setSmartStandby(
+  setSmartStandby(
     serialNumber: string,
     enabled: boolean,
     minutes: number,
-    after: SmartStandByType
-  ): Promise<boolean> {
+    after: SmartStandByType,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = { enabled, minutes, after: after.toString() };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineSettingSmartStandBy",
-      data
+      data,
+      undefined,
+      false,
+      signal
     );
   }
 
   /**
    * Delete a wakeup schedule
    */
-  async deleteWakeupSchedule(
+  deleteWakeupSchedule(
     serialNumber: string,
-    scheduleId: string
-  ): Promise<boolean> {
+    scheduleId: string,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = { id: scheduleId };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineDeleteWakeUpSchedule",
-      data
+      data,
+      undefined,
+      false,
+      signal
     );
   }
 
   /**
    * Set a wakeup schedule
    */
-  async setWakeupSchedule(
+  setWakeupSchedule(
     serialNumber: string,
-    schedule: WakeUpScheduleSettings
-  ): Promise<boolean> {
-    return await this.executeCommand(
+    schedule: WakeUpScheduleSettings,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineSetWakeUpSchedule",
-      schedule
+      schedule,
+      undefined,
+      false,
+      signal
     );
   }
 
   /**
    * Change brew by weight dose mode
    */
-  async changeBrewByWeightDoseMode(
+  changeBrewByWeightDoseMode(
     serialNumber: string,
-    mode: DoseMode
-  ): Promise<boolean> {
+    mode: DoseMode,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = { mode: mode.toString() };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineBrewByWeightChangeMode",
-      data
+      data,
+      expectWidget<BrewByWeightDoses & BaseWidgetOutput>(
+        WidgetType.CM_BREW_BY_WEIGHT_DOSES,
+        (brewByWeight) => brewByWeight.mode === mode
+      ),
+      false,
+      signal
     );
   }
 
   /**
    * Set brew by weight doses
    */
-  async setBrewByWeightDose(
+  setBrewByWeightDose(
     serialNumber: string,
     dose1: number,
-    dose2: number
-  ): Promise<boolean> {
+    dose2: number,
+    signal?: AbortSignal
+  ): CommandHandle {
     const data = {
       doses: {
         Dose1: Math.round(dose1 * 10) / 10,
         Dose2: Math.round(dose2 * 10) / 10,
       },
     };
-    return await this.executeCommand(
+    return this.executeCommand(
       serialNumber,
       "CoffeeMachineBrewByWeightSettingDoses",
-      data
+      data,
+      expectWidget<BrewByWeightDoses & BaseWidgetOutput>(
+        WidgetType.CM_BREW_BY_WEIGHT_DOSES,
+        (brewByWeight) =>
+          brewByWeight.doses.dose1.dose === data.doses.Dose1 &&
+          brewByWeight.doses.dose2.dose === data.doses.Dose2
+      ),
+      true,
+      signal
     );
   }
 
   /**
    * Install firmware update
    */
-  async updateFirmware(serialNumber: string): Promise<UpdateDetails> {
-    const url = `${CUSTOMER_APP_URL}/things/${serialNumber}/update-fw`;
-    const response = await this.restApiCall(url, "POST");
-    return response as UpdateDetails;
+  async updateFirmware(
+    serialNumber: string,
+    signal?: AbortSignal
+  ): Promise<UpdateDetails> {
+    const url = `${this.baseUrl}/things/${serialNumber}/update-fw`;
+    const response = await this.restApiCall(url, "POST", undefined, signal);
+    return this.validateResponse(updateDetailsValidator, response, "POST", url);
   }
 
   // #endregion
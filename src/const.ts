@@ -4,6 +4,7 @@
 
 export const BASE_URL = "lion.lamarzocco.io";
 export const CUSTOMER_APP_URL = `https://${BASE_URL}/api/customer-app`;
+export const WEBSOCKET_URL = `wss://${BASE_URL}/ws/connect`;
 
 /**
  * Machine modes
@@ -97,10 +98,19 @@ export enum SteamTargetLevel {
  */
 export enum StompMessageType {
   CONNECT = "CONNECT",
+  STOMP = "STOMP",
   CONNECTED = "CONNECTED",
+  SEND = "SEND",
   SUBSCRIBE = "SUBSCRIBE",
   UNSUBSCRIBE = "UNSUBSCRIBE",
+  ACK = "ACK",
+  NACK = "NACK",
+  BEGIN = "BEGIN",
+  COMMIT = "COMMIT",
+  ABORT = "ABORT",
+  DISCONNECT = "DISCONNECT",
   MESSAGE = "MESSAGE",
+  RECEIPT = "RECEIPT",
   ERROR = "ERROR",
 }
 
@@ -269,7 +279,18 @@ export enum BackFlushStatus {
  * Token and command timeouts
  */
 export const TOKEN_TIME_TO_REFRESH = 10 * 60; // 10 minutes in seconds
+export const REQUEST_TIMEOUT = 10000; // milliseconds
 export const PENDING_COMMAND_TIMEOUT = 10000; // milliseconds
+export const COMMAND_POLL_INTERVAL = 2000; // milliseconds
+export const COMMAND_POLL_TIMEOUT = 30000; // milliseconds
+
+/**
+ * WebSocket heart-beat intervals
+ */
+export const WEBSOCKET_HEARTBEAT_OUTGOING = 10000; // milliseconds
+export const WEBSOCKET_HEARTBEAT_INCOMING = 10000; // milliseconds
+export const WEBSOCKET_HEARTBEAT_TOLERANCE = 2; // missed intervals before reconnecting
+export const WEBSOCKET_CONNECT_TIMEOUT = 20000; // milliseconds, without incoming heart-beats
 
 /**
  * Steam level mapping
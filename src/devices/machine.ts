@@ -13,11 +13,12 @@ import {
   SteamTargetLevel,
   WidgetType,
 } from "../const";
-import { CloudOnlyFunctionality } from "../exceptions";
+import { CloudOnlyFunctionality, CommandFailed } from "../exceptions";
 import {
   CoffeeAndFlushCounter,
   CoffeeAndFlushTrend,
   CoffeeBoiler,
+  CommandHandle,
   LastCoffeeList,
   MachineStatus,
   PrebrewSettingTimes,
@@ -32,6 +33,9 @@ import {
  */
 export class LaMarzoccoMachine extends LaMarzoccoThing {
   public schedule: ThingSchedulingSettings;
+  // Doses requested by dose commands that have not settled yet
+  private requestedDoses: { dose1?: number; dose2?: number } = {};
+  private lastDoseCommand: CommandHandle | null = null;
 
   constructor(
     serialNumber: string,
@@ -46,298 +50,327 @@ export class LaMarzoccoMachine extends LaMarzoccoThing {
   /**
    * Get the schedule for this machine
    */
-  async getSchedule(): Promise<void> {
+  async getSchedule(signal?: AbortSignal): Promise<void> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
-    this.schedule = await this.cloudClient.getThingSchedule(this.serialNumber);
+    this.schedule = await this.cloudClient.getThingSchedule(
+      this.serialNumber,
+      signal
+    );
   }
 
   /**
    * Set machine power on/off
    */
-  async setPower(enabled: boolean): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-
-    const result = await this.cloudClient.setPower(this.serialNumber, enabled);
-
-    // Update dashboard if command succeeded
-    if (result && WidgetType.CM_MACHINE_STATUS in this.dashboard.config) {
-      const machineStatus = this.dashboard.config[
-        WidgetType.CM_MACHINE_STATUS
-      ] as MachineStatus;
-      machineStatus.mode = enabled
-        ? MachineMode.BREWING_MODE
-        : MachineMode.STANDBY;
-    }
-
-    return result;
+  setPower(enabled: boolean, signal?: AbortSignal): CommandHandle {
+    return this.sendCommand(
+      "setPower",
+      (cloudClient) => cloudClient.setPower(this.serialNumber, enabled, signal),
+      () => {
+        // Update dashboard if command succeeded
+        if (WidgetType.CM_MACHINE_STATUS in this.dashboard.config) {
+          const machineStatus = this.dashboard.config[
+            WidgetType.CM_MACHINE_STATUS
+          ] as MachineStatus;
+          machineStatus.mode = enabled
+            ? MachineMode.BREWING_MODE
+            : MachineMode.STANDBY;
+        }
+      }
+    );
   }
 
   /**
    * Set steam on/off
    */
-  async setSteam(enabled: boolean): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-
-    const result = await this.cloudClient.setSteam(this.serialNumber, enabled);
-
-    // Update dashboard if command succeeded
-    if (result) {
-      if (WidgetType.CM_STEAM_BOILER_LEVEL in this.dashboard.config) {
-        const steamLevel = this.dashboard.config[
-          WidgetType.CM_STEAM_BOILER_LEVEL
-        ] as SteamBoilerLevel;
-        steamLevel.enabled = enabled;
+  setSteam(enabled: boolean, signal?: AbortSignal): CommandHandle {
+    return this.sendCommand(
+      "setSteam",
+      (cloudClient) =>
+        cloudClient.setSteam(this.serialNumber, enabled, undefined, signal),
+      () => {
+        // Update dashboard if command succeeded
+        if (WidgetType.CM_STEAM_BOILER_LEVEL in this.dashboard.config) {
+          const steamLevel = this.dashboard.config[
+            WidgetType.CM_STEAM_BOILER_LEVEL
+          ] as SteamBoilerLevel;
+          steamLevel.enabled = enabled;
+        }
+        if (WidgetType.CM_STEAM_BOILER_TEMPERATURE in this.dashboard.config) {
+          const steamTemp = this.dashboard.config[
+            WidgetType.CM_STEAM_BOILER_TEMPERATURE
+          ] as SteamBoilerTemperature;
+          steamTemp.enabled = enabled;
+        }
       }
-      if (WidgetType.CM_STEAM_BOILER_TEMPERATURE in this.dashboard.config) {
-        const steamTemp = this.dashboard.config[
-          WidgetType.CM_STEAM_BOILER_TEMPERATURE
-        ] as SteamBoilerTemperature;
-        steamTemp.enabled = enabled;
-      }
-    }
-
-    return result;
+    );
   }
 
   /**
    * Set steam target level (Micra, Mini R only)
    */
-  async setSteamLevel(level: SteamTargetLevel): Promise<boolean> {
-    checkModelSupported(this.dashboard, [
-      ModelCode.LINEA_MICRA,
-      ModelCode.LINEA_MINI_R,
-    ]);
-
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-
-    const result = await this.cloudClient.setSteamTargetLevel(
-      this.serialNumber,
-      level
+  setSteamLevel(level: SteamTargetLevel, signal?: AbortSignal): CommandHandle {
+    return this.sendCommand(
+      "setSteamLevel",
+      (cloudClient) => {
+        checkModelSupported(this.dashboard, [
+          ModelCode.LINEA_MICRA,
+          ModelCode.LINEA_MINI_R,
+        ]);
+        return cloudClient.setSteamTargetLevel(
+          this.serialNumber,
+          level,
+          undefined,
+          signal
+        );
+      },
+      () => {
+        // Update dashboard if command succeeded
+        if (WidgetType.CM_STEAM_BOILER_LEVEL in this.dashboard.config) {
+          const steamLevel = this.dashboard.config[
+            WidgetType.CM_STEAM_BOILER_LEVEL
+          ] as SteamBoilerLevel;
+          steamLevel.targetLevel = level;
+        }
+      }
     );
-
-    // Update dashboard if command succeeded
-    if (result && WidgetType.CM_STEAM_BOILER_LEVEL in this.dashboard.config) {
-      const steamLevel = this.dashboard.config[
-        WidgetType.CM_STEAM_BOILER_LEVEL
-      ] as SteamBoilerLevel;
-      steamLevel.targetLevel = level;
-    }
-
-    return result;
   }
 
   /**
    * Set coffee target temperature
    */
-  async setCoffeeTargetTemperature(temperature: number): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-
-    const result = await this.cloudClient.setCoffeeTargetTemperature(
-      this.serialNumber,
-      temperature
+  setCoffeeTargetTemperature(
+    temperature: number,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.sendCommand(
+      "setCoffeeTargetTemperature",
+      (cloudClient) =>
+        cloudClient.setCoffeeTargetTemperature(
+          this.serialNumber,
+          temperature,
+          undefined,
+          signal
+        ),
+      () => {
+        // Update dashboard if command succeeded
+        if (WidgetType.CM_COFFEE_BOILER in this.dashboard.config) {
+          const coffeeBoiler = this.dashboard.config[
+            WidgetType.CM_COFFEE_BOILER
+          ] as CoffeeBoiler;
+          coffeeBoiler.targetTemperature = temperature;
+        }
+      }
     );
-
-    // Update dashboard if command succeeded
-    if (result && WidgetType.CM_COFFEE_BOILER in this.dashboard.config) {
-      const coffeeBoiler = this.dashboard.config[
-        WidgetType.CM_COFFEE_BOILER
-      ] as CoffeeBoiler;
-      coffeeBoiler.targetTemperature = temperature;
-    }
-
-    return result;
   }
 
   /**
    * Set steam target temperature (GS3 models only)
    */
-  async setSteamTargetTemperature(temperature: number): Promise<boolean> {
-    checkModelSupported(this.dashboard, [
-      ModelCode.GS3,
-      ModelCode.GS3_AV,
-      ModelCode.GS3_MP,
-    ]);
-
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-
-    const result = await this.cloudClient.setSteamTargetTemperature(
-      this.serialNumber,
-      temperature
+  setSteamTargetTemperature(
+    temperature: number,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.sendCommand(
+      "setSteamTargetTemperature",
+      (cloudClient) => {
+        checkModelSupported(this.dashboard, [
+          ModelCode.GS3,
+          ModelCode.GS3_AV,
+          ModelCode.GS3_MP,
+        ]);
+        return cloudClient.setSteamTargetTemperature(
+          this.serialNumber,
+          temperature,
+          undefined,
+          signal
+        );
+      },
+      () => {
+        // Update dashboard if command succeeded
+        if (WidgetType.CM_STEAM_BOILER_TEMPERATURE in this.dashboard.config) {
+          const steamTemp = this.dashboard.config[
+            WidgetType.CM_STEAM_BOILER_TEMPERATURE
+          ] as SteamBoilerTemperature;
+          steamTemp.targetTemperature = temperature;
+        }
+      }
     );
-
-    // Update dashboard if command succeeded
-    if (
-      result &&
-      WidgetType.CM_STEAM_BOILER_TEMPERATURE in this.dashboard.config
-    ) {
-      const steamTemp = this.dashboard.config[
-        WidgetType.CM_STEAM_BOILER_TEMPERATURE
-      ] as SteamBoilerTemperature;
-      steamTemp.targetTemperature = temperature;
-    }
-
-    return result;
   }
 
   /**
    * Start backflush cleaning (cloud only)
    */
-  async startBackflush(): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-    return await this.cloudClient.startBackflushCleaning(this.serialNumber);
+  startBackflush(signal?: AbortSignal): CommandHandle {
+    return this.sendCommand("startBackflush", (cloudClient) =>
+      cloudClient.startBackflushCleaning(this.serialNumber, signal)
+    );
   }
 
   /**
    * Set pre-extraction mode (cloud only)
    */
-  async setPreExtractionMode(mode: PreExtractionMode): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-    return await this.cloudClient.changePreExtractionMode(
-      this.serialNumber,
-      mode
+  setPreExtractionMode(
+    mode: PreExtractionMode,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.sendCommand("setPreExtractionMode", (cloudClient) =>
+      cloudClient.changePreExtractionMode(this.serialNumber, mode, signal)
     );
   }
 
   /**
    * Set pre-extraction times (cloud only)
    */
-  async setPreExtractionTimes(
+  setPreExtractionTimes(
     secondsOn: number,
-    secondsOff: number
-  ): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
+    secondsOff: number,
+    signal?: AbortSignal
+  ): CommandHandle {
     const times: PrebrewSettingTimes = {
       times: {
         secondsIn: secondsOn,
         secondsOut: secondsOff,
       },
     };
-    return await this.cloudClient.changePreExtractionTimes(
-      this.serialNumber,
-      times
+    return this.sendCommand("setPreExtractionTimes", (cloudClient) =>
+      cloudClient.changePreExtractionTimes(this.serialNumber, times, signal)
     );
   }
 
   /**
    * Set smart standby mode
    */
-  async setSmartStandby(
+  setSmartStandby(
     enabled: boolean,
     minutes: number,
-    mode: SmartStandByType
-  ): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-
-    return await this.cloudClient.setSmartStandby(
-      this.serialNumber,
-      enabled,
-      minutes,
-      mode
+    mode: SmartStandByType,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.sendCommand("setSmartStandby", (cloudClient) =>
+      cloudClient.setSmartStandby(
+        this.serialNumber,
+        enabled,
+        minutes,
+        mode,
+        signal
+      )
     );
   }
 
   /**
    * Delete a wakeup schedule (cloud only)
    */
-  async deleteWakeupSchedule(scheduleId: string): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-    return await this.cloudClient.deleteWakeupSchedule(
-      this.serialNumber,
-      scheduleId
+  deleteWakeupSchedule(
+    scheduleId: string,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.sendCommand("deleteWakeupSchedule", (cloudClient) =>
+      cloudClient.deleteWakeupSchedule(this.serialNumber, scheduleId, signal)
     );
   }
 
   /**
    * Set a wakeup schedule (cloud only)
    */
-  async setWakeupSchedule(schedule: WakeUpScheduleSettings): Promise<boolean> {
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-    return await this.cloudClient.setWakeupSchedule(this.serialNumber, schedule);
+  setWakeupSchedule(
+    schedule: WakeUpScheduleSettings,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.sendCommand("setWakeupSchedule", (cloudClient) =>
+      cloudClient.setWakeupSchedule(this.serialNumber, schedule, signal)
+    );
   }
 
   /**
    * Set brew by weight dose mode (Linea Mini models only, cloud only)
    */
-  async setBrewByWeightDoseMode(mode: DoseMode): Promise<boolean> {
-    checkModelSupported(this.dashboard, [
-      ModelCode.LINEA_MINI,
-      ModelCode.LINEA_MINI_R,
-    ]);
-
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-    return await this.cloudClient.changeBrewByWeightDoseMode(
-      this.serialNumber,
-      mode
-    );
+  setBrewByWeightDoseMode(mode: DoseMode, signal?: AbortSignal): CommandHandle {
+    return this.sendCommand("setBrewByWeightDoseMode", (cloudClient) => {
+      checkModelSupported(this.dashboard, [
+        ModelCode.LINEA_MINI,
+        ModelCode.LINEA_MINI_R,
+      ]);
+      return cloudClient.changeBrewByWeightDoseMode(
+        this.serialNumber,
+        mode,
+        signal
+      );
+    });
   }
 
   /**
    * Set brew by weight dose (Linea Mini models only, cloud only)
    */
-  async setBrewByWeightDose(dose: DoseMode, value: number): Promise<boolean> {
-    checkModelSupported(this.dashboard, [
-      ModelCode.LINEA_MINI,
-      ModelCode.LINEA_MINI_R,
-    ]);
-
-    if (!this.cloudClient) {
-      throw new CloudOnlyFunctionality();
-    }
-
-    // Get current doses from dashboard
-    if (!(WidgetType.CM_BREW_BY_WEIGHT_DOSES in this.dashboard.config)) {
-      return false;
-    }
-
-    const brewByWeight = this.dashboard.config[
-      WidgetType.CM_BREW_BY_WEIGHT_DOSES
-    ] as any;
-
-    // Set the dose values, keeping the other one unchanged
-    let dose1: number;
-    let dose2: number;
+  setBrewByWeightDose(
+    dose: DoseMode,
+    value: number,
+    signal?: AbortSignal
+  ): CommandHandle {
+    return this.sendCommand("setBrewByWeightDose", (cloudClient) => {
+      checkModelSupported(this.dashboard, [
+        ModelCode.LINEA_MINI,
+        ModelCode.LINEA_MINI_R,
+      ]);
+
+      // Get current doses from dashboard
+      if (!(WidgetType.CM_BREW_BY_WEIGHT_DOSES in this.dashboard.config)) {
+        throw new CommandFailed(
+          "setBrewByWeightDose",
+          null,
+          null,
+          "Brew by weight doses are not available"
+        );
+      }
 
-    if (dose === DoseMode.DOSE_1) {
-      dose1 = value;
-      dose2 = brewByWeight.doses.dose2.dose;
-    } else if (dose === DoseMode.DOSE_2) {
-      dose1 = brewByWeight.doses.dose1.dose;
-      dose2 = value;
-    } else {
-      return false;
-    }
+      const brewByWeight = this.dashboard.config[
+        WidgetType.CM_BREW_BY_WEIGHT_DOSES
+      ] as any;
+
+      // Set the dose value, keeping the other one at the value requested by
+      // an unsettled command, which this command may supersede, or else at
+      // its dashboard value
+      const requested = { ...this.requestedDoses };
+      if (dose === DoseMode.DOSE_1) {
+        requested.dose1 = value;
+      } else if (dose === DoseMode.DOSE_2) {
+        requested.dose2 = value;
+      } else {
+        throw new CommandFailed(
+          "setBrewByWeightDose",
+          null,
+          null,
+          `Unsupported dose: ${dose}`
+        );
+      }
 
-    return await this.cloudClient.setBrewByWeightDose(
-      this.serialNumber,
-      dose1,
-      dose2
-    );
+      const dose1: number = requested.dose1 ?? brewByWeight.doses.dose1.dose;
+      const dose2: number = requested.dose2 ?? brewByWeight.doses.dose2.dose;
+      const handle = cloudClient.setBrewByWeightDose(
+        this.serialNumber,
+        dose1,
+        dose2,
+        signal
+      );
+      if (!handle.done) {
+        this.requestedDoses = requested;
+        this.lastDoseCommand = handle;
+        handle.on("settled", (succeeded) => {
+          // Update dashboard if command succeeded
+          if (succeeded) {
+            brewByWeight.doses.dose1.dose = dose1;
+            brewByWeight.doses.dose2.dose = dose2;
+          }
+          // The latest dose command carries every requested dose
+          if (this.lastDoseCommand === handle) {
+            this.requestedDoses = {};
+            this.lastDoseCommand = null;
+          }
+        });
+      }
+      return handle;
+    });
   }
 
   /**
@@ -345,7 +378,8 @@ export class LaMarzoccoMachine extends LaMarzoccoThing {
    */
   async getCoffeeAndFlushTrend(
     days: number,
-    timezone: string
+    timezone: string,
+    signal?: AbortSignal
   ): Promise<CoffeeAndFlushTrend> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
@@ -353,7 +387,8 @@ export class LaMarzoccoMachine extends LaMarzoccoThing {
     const trend = await this.cloudClient.getThingCoffeeAndFlushTrend(
       this.serialNumber,
       days,
-      timezone
+      timezone,
+      signal
     );
     this.statistics.widgets[WidgetType.COFFEE_AND_FLUSH_TREND] = trend;
     return trend;
@@ -362,13 +397,17 @@ export class LaMarzoccoMachine extends LaMarzoccoThing {
   /**
    * Get last coffee (cloud only)
    */
-  async getLastCoffee(days: number): Promise<LastCoffeeList> {
+  async getLastCoffee(
+    days: number,
+    signal?: AbortSignal
+  ): Promise<LastCoffeeList> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
     const lastCoffee = await this.cloudClient.getThingLastCoffee(
       this.serialNumber,
-      days
+      days,
+      signal
     );
     this.statistics.widgets[WidgetType.LAST_COFFEE] = lastCoffee;
     return lastCoffee;
@@ -377,12 +416,15 @@ export class LaMarzoccoMachine extends LaMarzoccoThing {
   /**
    * Get coffee and flush counter (cloud only)
    */
-  async getCoffeeAndFlushCounter(): Promise<CoffeeAndFlushCounter> {
+  async getCoffeeAndFlushCounter(
+    signal?: AbortSignal
+  ): Promise<CoffeeAndFlushCounter> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
     const counter = await this.cloudClient.getThingCoffeeAndFlushCounter(
-      this.serialNumber
+      this.serialNumber,
+      signal
     );
     this.statistics.widgets[WidgetType.COFFEE_AND_FLUSH_COUNTER] = counter;
     return counter;
@@ -3,16 +3,46 @@
  */
 
 import { LaMarzoccoCloudClient } from "../clients";
-import { ModelCode } from "../const";
+import { ModelCode, WidgetType } from "../const";
 import { CloudOnlyFunctionality, UnsupportedModel } from "../exceptions";
 import {
+  BaseWidgetOutput,
+  CommandHandle,
+  CommandResponse,
   ThingDashboardConfig,
   ThingDashboardWebsocketConfig,
   ThingSettings,
   ThingStatistics,
   UpdateDetails,
-  WebSocketDetails,
+  WidgetChange,
+  ThingWebSocketDetails,
+  WebSocketConnectOptions,
 } from "../models";
+import { TypedEventEmitter, Unsubscribe } from "../util/events";
+import { AsyncQueueOptions } from "../util/stream";
+import { reduceDashboard } from "../util/dashboard";
+
+/**
+ * Events emitted by a thing
+ */
+export type ThingEvents = {
+  update: (config: ThingDashboardWebsocketConfig) => void;
+  connected: () => void;
+  disconnected: () => void;
+  commandResult: (result: CommandResponse) => void;
+  dashboardChanged: (changes: WidgetChange[]) => void;
+  widgetChanged: (
+    output: BaseWidgetOutput,
+    widgetType: WidgetType,
+    change: WidgetChange
+  ) => void;
+  widgetRemoved: (widgetType: WidgetType, change: WidgetChange) => void;
+};
+
+/**
+ * Listener for changes of a single widget
+ */
+export type WidgetChangedListener = ThingEvents["widgetChanged"];
 
 /**
  * Base class for all La Marzocco devices
@@ -20,9 +50,12 @@ import {
 export class LaMarzoccoThing {
   public serialNumber: string;
   protected cloudClient: LaMarzoccoCloudClient | null;
-  protected updateCallback:
-    | ((config: ThingDashboardWebsocketConfig) => void)
-    | null = null;
+  private events = new TypedEventEmitter<ThingEvents>((event, error) =>
+    this.logListenerError(event, error)
+  );
+  private widgetEvents = new TypedEventEmitter<
+    Record<WidgetType, WidgetChangedListener>
+  >((event, error) => this.logListenerError(event, error));
   public dashboard: ThingDashboardConfig;
   public settings: ThingSettings;
   public statistics: ThingStatistics;
@@ -44,13 +77,65 @@ export class LaMarzoccoThing {
   }
 
   /**
-   * Get the WebSocket connection details
+   * Get the WebSocket connection details for this thing
    */
-  get websocket(): WebSocketDetails {
-    if (!this.cloudClient) {
-      return new WebSocketDetails();
+  get websocket(): ThingWebSocketDetails {
+    return new ThingWebSocketDetails(this.serialNumber, this.cloudClient);
+  }
+
+  /**
+   * Add an event listener, optionally for a single widget type
+   */
+  on<K extends keyof ThingEvents>(
+    event: K,
+    listener: ThingEvents[K]
+  ): Unsubscribe;
+  on(
+    event: "widgetChanged",
+    widgetType: WidgetType,
+    listener: WidgetChangedListener
+  ): Unsubscribe;
+  on(event: keyof ThingEvents, ...args: any[]): Unsubscribe {
+    if (event === "widgetChanged" && args.length === 2) {
+      return this.widgetEvents.on(args[0], args[1]);
+    }
+    return this.events.on(event, args[0]);
+  }
+
+  /**
+   * Add an event listener that is removed after its first call
+   */
+  once<K extends keyof ThingEvents>(
+    event: K,
+    listener: ThingEvents[K]
+  ): Unsubscribe;
+  once(
+    event: "widgetChanged",
+    widgetType: WidgetType,
+    listener: WidgetChangedListener
+  ): Unsubscribe;
+  once(event: keyof ThingEvents, ...args: any[]): Unsubscribe {
+    if (event === "widgetChanged" && args.length === 2) {
+      return this.widgetEvents.once(args[0], args[1]);
+    }
+    return this.events.once(event, args[0]);
+  }
+
+  /**
+   * Remove an event listener
+   */
+  off<K extends keyof ThingEvents>(event: K, listener: ThingEvents[K]): void;
+  off(
+    event: "widgetChanged",
+    widgetType: WidgetType,
+    listener: WidgetChangedListener
+  ): void;
+  off(event: keyof ThingEvents, ...args: any[]): void {
+    if (event === "widgetChanged" && args.length === 2) {
+      this.widgetEvents.off(args[0], args[1]);
+      return;
     }
-    return this.cloudClient.websocket;
+    this.events.off(event, args[0]);
   }
 
   /**
@@ -63,101 +148,224 @@ export class LaMarzoccoThing {
   /**
    * Ensure the cloud token is valid
    */
-  async ensureTokenValid(): Promise<void> {
+  async ensureTokenValid(signal?: AbortSignal): Promise<void> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
-    await this.cloudClient.asyncGetAccessToken();
+    await this.cloudClient.asyncGetAccessToken(signal);
   }
 
   /**
    * Get the dashboard for this thing
    */
-  async getDashboard(): Promise<void> {
+  async getDashboard(signal?: AbortSignal): Promise<void> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
-    this.dashboard = await this.cloudClient.getThingDashboard(this.serialNumber);
+    this.dashboard = await this.cloudClient.getThingDashboard(
+      this.serialNumber,
+      signal
+    );
   }
 
   /**
    * Get the settings for this thing
    */
-  async getSettings(): Promise<void> {
+  async getSettings(signal?: AbortSignal): Promise<void> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
-    this.settings = await this.cloudClient.getThingSettings(this.serialNumber);
+    this.settings = await this.cloudClient.getThingSettings(
+      this.serialNumber,
+      signal
+    );
   }
 
   /**
    * Get the statistics for this thing
    */
-  async getStatistics(): Promise<void> {
+  async getStatistics(signal?: AbortSignal): Promise<void> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
     this.statistics = await this.cloudClient.getThingStatistics(
-      this.serialNumber
+      this.serialNumber,
+      signal
     );
   }
 
   /**
    * Get the firmware details for this thing
    */
-  async getFirmware(): Promise<UpdateDetails> {
+  async getFirmware(signal?: AbortSignal): Promise<UpdateDetails> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
-    return await this.cloudClient.getThingFirmware(this.serialNumber);
+    return await this.cloudClient.getThingFirmware(this.serialNumber, signal);
   }
 
   /**
-   * Handler for receiving a websocket message
+   * Handler for receiving a websocket message. Merges the partial update
+   * into `dashboard` and emits change events for widgets that changed.
    */
   protected websocketDashboardUpdateReceived(
     config: ThingDashboardWebsocketConfig
   ): void {
-    this.dashboard.widgets = config.widgets;
-    this.dashboard.config = config.config;
+    const { widgets, config: widgetConfig, changes } = reduceDashboard(
+      this.dashboard,
+      config
+    );
+    this.dashboard.widgets = widgets;
+    this.dashboard.config = widgetConfig;
 
-    if (this.updateCallback) {
-      this.updateCallback(config);
+    for (const command of config.commands || []) {
+      this.events.emit("commandResult", command);
+    }
+
+    for (const change of changes) {
+      const { widgetType, newValue } = change;
+      if (newValue) {
+        this.events.emit("widgetChanged", newValue, widgetType, change);
+        this.widgetEvents.emit(widgetType, newValue, widgetType, change);
+      } else {
+        this.events.emit("widgetRemoved", widgetType, change);
+      }
+    }
+    if (changes.length > 0) {
+      this.events.emit("dashboardChanged", changes);
     }
+
+    this.events.emit("update", config);
   }
 
   /**
-   * Connect to the cloud websocket for the dashboard
+   * Connect to the cloud websocket for the dashboard.
+   * The callbacks are registered as `update`, `connected` and `disconnected`
+   * listeners for the duration of the call.
    */
   async connectDashboardWebsocket(
     updateCallback?: (config: ThingDashboardWebsocketConfig) => void,
     connectCallback?: () => void,
     disconnectCallback?: () => void,
-    autoReconnect: boolean = true
+    autoReconnect: boolean = true,
+    options: WebSocketConnectOptions = {}
   ): Promise<void> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
 
-    this.updateCallback = updateCallback || null;
+    const unsubscribers: Unsubscribe[] = [];
+    if (updateCallback) {
+      unsubscribers.push(this.on("update", updateCallback));
+    }
+    if (connectCallback) {
+      unsubscribers.push(this.on("connected", connectCallback));
+    }
+    if (disconnectCallback) {
+      unsubscribers.push(this.on("disconnected", disconnectCallback));
+    }
 
-    await this.cloudClient.websocketConnect(
-      this.serialNumber,
-      (config) => this.websocketDashboardUpdateReceived(config),
-      connectCallback,
-      disconnectCallback,
-      autoReconnect
-    );
+    try {
+      await this.cloudClient.websocketConnect(
+        this.serialNumber,
+        (config) => this.websocketDashboardUpdateReceived(config),
+        () => this.events.emit("connected"),
+        () => this.events.emit("disconnected"),
+        autoReconnect,
+        options
+      );
+    } finally {
+      for (const unsubscribe of unsubscribers) {
+        unsubscribe();
+      }
+    }
+  }
+
+  /**
+   * Stream dashboard updates as an async iterator, keeping `dashboard`
+   * current. Connects the dashboard websocket if it is not connected yet,
+   * and disconnects it again when iteration stops.
+   */
+  async *dashboardUpdates(
+    options: AsyncQueueOptions = {}
+  ): AsyncGenerator<ThingDashboardWebsocketConfig, void, undefined> {
+    if (!this.cloudClient) {
+      throw new CloudOnlyFunctionality();
+    }
+
+    // Only removes the subscription if it was opened for this stream
+    const subscriptionController = new AbortController();
+    if (!this.websocket.subscribed) {
+      void this.connectDashboardWebsocket(
+        undefined,
+        undefined,
+        undefined,
+        true,
+        { signal: subscriptionController.signal }
+      );
+    }
+
+    try {
+      yield* this.cloudClient.dashboardUpdates(this.serialNumber, options);
+    } finally {
+      subscriptionController.abort();
+    }
   }
 
   /**
    * Start the firmware update process
    */
-  async updateFirmware(): Promise<void> {
+  async updateFirmware(signal?: AbortSignal): Promise<void> {
     if (!this.cloudClient) {
       throw new CloudOnlyFunctionality();
     }
-    await this.cloudClient.updateFirmware(this.serialNumber);
+    await this.cloudClient.updateFirmware(this.serialNumber, signal);
+  }
+
+  /**
+   * Send a command through the cloud client. Errors raised before the
+   * command is sent fail the returned handle instead of being thrown.
+   */
+  protected sendCommand(
+    name: string,
+    send: (cloudClient: LaMarzoccoCloudClient) => CommandHandle,
+    onSuccess?: () => void
+  ): CommandHandle {
+    let handle: CommandHandle;
+    try {
+      if (!this.cloudClient) {
+        throw new CloudOnlyFunctionality();
+      }
+      handle = send(this.cloudClient);
+    } catch (error) {
+      return CommandHandle.failed(
+        this.serialNumber,
+        name,
+        error as Error,
+        this.cloudClient?.logger
+      );
+    }
+
+    // Settled listeners run before the handle resolves for awaiting callers
+    if (onSuccess) {
+      handle.on("settled", (succeeded) => {
+        if (succeeded) {
+          onSuccess();
+        }
+      });
+    }
+    return handle;
+  }
+
+  /**
+   * Report an error thrown by an event listener to the client's logger
+   */
+  private logListenerError(event: string, error: unknown): void {
+    this.cloudClient?.logger.warn("Error in thing listener", {
+      serialNumber: this.serialNumber,
+      event,
+      error,
+    });
   }
 
   /**
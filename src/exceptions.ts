@@ -17,24 +17,156 @@ export class LaMarzoccoError extends Error {
  * Error indicating invalid authentication information
  */
 export class AuthFail extends LaMarzoccoError {
-  constructor(message: string = "Authentication failed") {
+  public details: RequestErrorDetails | null;
+
+  constructor(
+    message: string = "Authentication failed",
+    details: RequestErrorDetails | null = null
+  ) {
     super(message);
     this.name = "AuthFail";
+    this.details = details;
     Object.setPrototypeOf(this, AuthFail.prototype);
   }
 }
 
+/**
+ * Details of a failed HTTP request
+ */
+export interface RequestErrorDetails {
+  method: string;
+  url: string;
+  status?: number | null; // null when no response was received
+  requestId?: string | null;
+  body?: any; // parsed response body
+}
+
 /**
  * Error indicating a non-200 HTTP response
  */
 export class RequestNotSuccessful extends LaMarzoccoError {
-  constructor(message: string = "Request was not successful") {
+  public status: number | null;
+  public method: string | null;
+  public url: string | null;
+  public requestId: string | null;
+  public body: any;
+
+  constructor(
+    message: string = "Request was not successful",
+    details: RequestErrorDetails | null = null
+  ) {
     super(message);
     this.name = "RequestNotSuccessful";
+    this.status = details?.status ?? null;
+    this.method = details?.method ?? null;
+    this.url = details?.url ?? null;
+    this.requestId = details?.requestId ?? null;
+    this.body = details?.body ?? null;
     Object.setPrototypeOf(this, RequestNotSuccessful.prototype);
   }
 }
 
+/**
+ * Error indicating the requested thing does not exist (HTTP 404)
+ */
+export class ThingNotFound extends RequestNotSuccessful {
+  constructor(
+    message: string = "Thing not found",
+    details: RequestErrorDetails | null = null
+  ) {
+    super(message, details);
+    this.name = "ThingNotFound";
+    Object.setPrototypeOf(this, ThingNotFound.prototype);
+  }
+}
+
+/**
+ * Error indicating access was denied, e.g. the machine is not registered to
+ * this account (HTTP 403)
+ */
+export class Forbidden extends RequestNotSuccessful {
+  constructor(
+    message: string = "Access forbidden",
+    details: RequestErrorDetails | null = null
+  ) {
+    super(message, details);
+    this.name = "Forbidden";
+    Object.setPrototypeOf(this, Forbidden.prototype);
+  }
+}
+
+/**
+ * Error indicating too many requests were made (HTTP 429)
+ */
+export class RateLimited extends RequestNotSuccessful {
+  public retryAfter: number | null; // milliseconds, from the Retry-After header
+
+  constructor(
+    message: string = "Rate limited",
+    details: RequestErrorDetails | null = null,
+    retryAfter: number | null = null
+  ) {
+    super(message, details);
+    this.name = "RateLimited";
+    this.retryAfter = retryAfter;
+    Object.setPrototypeOf(this, RateLimited.prototype);
+  }
+}
+
+/**
+ * Error indicating the server failed to handle the request (HTTP 5xx)
+ */
+export class ServerError extends RequestNotSuccessful {
+  constructor(
+    message: string = "Server error",
+    details: RequestErrorDetails | null = null
+  ) {
+    super(message, details);
+    this.name = "ServerError";
+    Object.setPrototypeOf(this, ServerError.prototype);
+  }
+}
+
+/**
+ * Error indicating no response was received in time
+ */
+export class NetworkTimeout extends RequestNotSuccessful {
+  constructor(
+    message: string = "Request timed out",
+    details: RequestErrorDetails | null = null
+  ) {
+    super(message, details);
+    this.name = "NetworkTimeout";
+    Object.setPrototypeOf(this, NetworkTimeout.prototype);
+  }
+}
+
+/**
+ * Mismatch between a response and the model it should match
+ */
+export interface ValidationIssue {
+  path: string; // e.g. "widgets[2].output.targetTemperature"
+  message: string;
+}
+
+/**
+ * Error indicating a response could not be understood
+ */
+export class InvalidResponse extends RequestNotSuccessful {
+  public issues: ValidationIssue[];
+
+  constructor(
+    message: string = "Received invalid response",
+    details: RequestErrorDetails | null = null,
+    issues: ValidationIssue[] = []
+  ) {
+    super(message, details);
+    this.name = "InvalidResponse";
+    this.issues = issues;
+    Object.setPrototypeOf(this, InvalidResponse.prototype);
+  }
+}
+
 /**
  * Error indicating an unknown WebSocket message was received
  */
@@ -46,6 +178,161 @@ export class UnknownWebSocketMessage extends LaMarzoccoError {
   }
 }
 
+/**
+ * Error indicating a STOMP frame could not be parsed
+ */
+export class MalformedStompFrame extends LaMarzoccoError {
+  constructor(message: string = "Received malformed STOMP frame") {
+    super(message);
+    this.name = "MalformedStompFrame";
+    Object.setPrototypeOf(this, MalformedStompFrame.prototype);
+  }
+}
+
+/**
+ * Error indicating the WebSocket connection was closed
+ */
+export class WebSocketClosed extends LaMarzoccoError {
+  public code: number;
+  public reason: string;
+
+  constructor(code: number, reason: string = "") {
+    super(
+      `WebSocket closed with code ${code}${reason ? `: ${reason}` : ""}`
+    );
+    this.name = "WebSocketClosed";
+    this.code = code;
+    this.reason = reason;
+    Object.setPrototypeOf(this, WebSocketClosed.prototype);
+  }
+}
+
+/**
+ * Error indicating the WebSocket connection was not established in time
+ */
+export class WebSocketConnectTimeout extends LaMarzoccoError {
+  public timeout: number;
+
+  constructor(timeout: number) {
+    super(`WebSocket connection not established within ${timeout} ms`);
+    this.name = "WebSocketConnectTimeout";
+    this.timeout = timeout;
+    Object.setPrototypeOf(this, WebSocketConnectTimeout.prototype);
+  }
+}
+
+/**
+ * Error indicating a consumer fell too far behind a stream of updates
+ */
+export class UpdateStreamOverflow extends LaMarzoccoError {
+  constructor(message: string = "Update stream buffer overflowed") {
+    super(message);
+    this.name = "UpdateStreamOverflow";
+    Object.setPrototypeOf(this, UpdateStreamOverflow.prototype);
+  }
+}
+
+/**
+ * Error indicating the machine reported a command as failed
+ */
+export class CommandFailed extends LaMarzoccoError {
+  public command: string;
+  public commandId: string | null;
+  public errorCode: string | null;
+
+  constructor(
+    command: string,
+    commandId: string | null = null,
+    errorCode: string | null = null,
+    message?: string
+  ) {
+    super(
+      message ||
+        `Command ${command} failed${errorCode ? ` with error ${errorCode}` : ""}`
+    );
+    this.name = "CommandFailed";
+    this.command = command;
+    this.commandId = commandId;
+    this.errorCode = errorCode;
+    Object.setPrototypeOf(this, CommandFailed.prototype);
+  }
+}
+
+/**
+ * Error indicating a command was not confirmed in time
+ */
+export class CommandTimeout extends LaMarzoccoError {
+  public command: string;
+  public commandId: string | null;
+
+  constructor(command: string, commandId: string | null = null) {
+    super(`Timed out waiting for confirmation of command ${command}`);
+    this.name = "CommandTimeout";
+    this.command = command;
+    this.commandId = commandId;
+    Object.setPrototypeOf(this, CommandTimeout.prototype);
+  }
+}
+
+/**
+ * Error indicating a command was cancelled or superseded before it completed
+ */
+export class CommandCancelled extends LaMarzoccoError {
+  public command: string;
+  public commandId: string | null;
+
+  constructor(
+    command: string,
+    commandId: string | null = null,
+    reason?: string
+  ) {
+    super(`Command ${command} was ${reason || "cancelled"}`);
+    this.name = "CommandCancelled";
+    this.command = command;
+    this.commandId = commandId;
+    Object.setPrototypeOf(this, CommandCancelled.prototype);
+  }
+}
+
+/**
+ * Error indicating an operation was aborted through its AbortSignal
+ */
+export class Aborted extends LaMarzoccoError {
+  public reason: unknown;
+
+  constructor(message: string = "Operation was aborted", reason?: unknown) {
+    super(message);
+    this.name = "Aborted";
+    this.reason = reason;
+    Object.setPrototypeOf(this, Aborted.prototype);
+  }
+}
+
+/**
+ * Problem found when validating installation key material
+ */
+export interface InstallationKeyProblem {
+  field: "installationId" | "privateKey" | "secret";
+  message: string;
+}
+
+/**
+ * Error indicating installation key material could not be loaded
+ */
+export class InvalidInstallationKey extends LaMarzoccoError {
+  public problems: InstallationKeyProblem[];
+
+  constructor(
+    message: string = "Invalid installation key",
+    problems: InstallationKeyProblem[] = []
+  ) {
+    super(message);
+    this.name = "InvalidInstallationKey";
+    this.problems = problems;
+    Object.setPrototypeOf(this, InvalidInstallationKey.prototype);
+  }
+}
+
 /**
  * Error indicating functionality requires cloud client but it's not initialized
  */
@@ -4,10 +4,21 @@
  */
 
 // Export clients
-export { LaMarzoccoCloudClient } from "./clients";
+export {
+  LaMarzoccoCloudClient,
+  LaMarzoccoCloudClientOptions,
+  RequestTimeouts,
+  RequestHookContext,
+  ResponseHookContext,
+} from "./clients";
 
 // Export devices
-export { LaMarzoccoMachine, LaMarzoccoThing } from "./devices";
+export {
+  LaMarzoccoMachine,
+  LaMarzoccoThing,
+  ThingEvents,
+  WidgetChangedListener,
+} from "./devices";
 
 // Export constants
 export * from "./const";
@@ -25,9 +36,44 @@ export {
   generateInstallationKey,
   installationKeyToJSON,
   installationKeyFromJSON,
+  isEncryptedInstallationKey,
+  validateInstallationKey,
+  EncryptedInstallationKeyJSON,
   generateExtraRequestHeaders,
   generateRequestProof,
   getPublicKeyB64,
   getBaseString,
+  AuthenticationBackend,
+  nodeAuthenticationBackend,
+  webCryptoAuthenticationBackend,
+  isWebCryptoAvailable,
+  ReconnectPolicy,
+  ExponentialBackoffOptions,
+  ExponentialBackoffPolicy,
+  RequestFailure,
+  RetryAttempt,
+  RetryPolicy,
+  HttpRetryOptions,
+  HttpRetryPolicy,
+  TokenStore,
+  MemoryTokenStore,
+  FileTokenStore,
+  Credentials,
+  CredentialProvider,
+  StaticCredentialProvider,
+  EnvCredentialProvider,
+  CallbackCredentialProvider,
+  FileCredentialProvider,
+  TypedEventEmitter,
+  Unsubscribe,
+  AsyncQueueOptions,
+  OverflowStrategy,
+  DashboardState,
+  DashboardReduction,
+  reduceDashboard,
+  LogContext,
+  Logger,
+  noopLogger,
+  consoleLogger,
 } from "./util";
 
@@ -0,0 +1,269 @@
+/**
+ * Models for command execution
+ */
+
+import { CommandStatus, WidgetType } from "../const";
+import {
+  Aborted,
+  CommandCancelled,
+  CommandFailed,
+  CommandTimeout,
+} from "../exceptions";
+import { TypedEventEmitter, Unsubscribe } from "../util/events";
+import { Logger, noopLogger } from "../util/logger";
+import { BaseWidgetOutput, CommandResponse } from "./general";
+
+/**
+ * Options for confirming commands by polling the dashboard while no
+ * websocket is connected for the machine
+ */
+export interface CommandPollingOptions {
+  interval?: number; // milliseconds between dashboard polls
+  timeout?: number; // milliseconds before the command times out
+}
+
+/**
+ * Check whether dashboard widgets reflect the result of a command
+ */
+export type CommandExpectation = (
+  config: Partial<Record<WidgetType, BaseWidgetOutput>>
+) => boolean;
+
+/**
+ * Events emitted by a command handle
+ */
+export type CommandHandleEvents = {
+  status: (status: CommandStatus, handle: CommandHandle) => void;
+  settled: (succeeded: boolean, handle: CommandHandle) => void;
+};
+
+/**
+ * Tracks a command sent to a machine through Pending and InProgress until
+ * it succeeds, fails or times out.
+ *
+ * Awaiting the handle yields true on success and false when the machine
+ * reports an error, does not confirm in time or the command is cancelled.
+ * `result` rejects with CommandFailed, CommandTimeout or CommandCancelled
+ * instead. A command aborted through its signal rejects with Aborted either
+ * way. The handle can be used wherever a Promise<boolean> is expected.
+ */
+export class CommandHandle implements Promise<boolean> {
+  public readonly [Symbol.toStringTag] = "CommandHandle";
+  public readonly serialNumber: string;
+  public readonly command: string;
+  public id: string | null = null;
+  public status: CommandStatus = CommandStatus.PENDING;
+  public errorCode: string | null = null;
+  public confirmed = false; // true once the machine reported success
+  public readonly result: Promise<CommandResponse>;
+  private response: CommandResponse | null = null;
+  private settled = false;
+  private resolveResult!: (response: CommandResponse) => void;
+  private rejectResult!: (reason: Error) => void;
+  private events: TypedEventEmitter<CommandHandleEvents>;
+
+  /**
+   * Errors thrown by listeners are reported to the logger
+   */
+  constructor(
+    serialNumber: string,
+    command: string,
+    logger: Logger = noopLogger
+  ) {
+    this.serialNumber = serialNumber;
+    this.command = command;
+    this.events = new TypedEventEmitter<CommandHandleEvents>((event, error) =>
+      logger.warn("Error in command listener", {
+        serialNumber,
+        command,
+        commandId: this.id,
+        event,
+        error,
+      })
+    );
+    this.result = new Promise((resolve, reject) => {
+      this.resolveResult = resolve;
+      this.rejectResult = reject;
+    });
+    // Failures are surfaced to whoever awaits the handle or its result
+    this.result.catch(() => undefined);
+  }
+
+  /**
+   * Create a handle for a command that could not be sent
+   */
+  static failed(
+    serialNumber: string,
+    command: string,
+    error: Error,
+    logger: Logger = noopLogger
+  ): CommandHandle {
+    const handle = new CommandHandle(serialNumber, command, logger);
+    handle.fail(error);
+    return handle;
+  }
+
+  /**
+   * Whether the command succeeded, failed or timed out
+   */
+  get done(): boolean {
+    return this.settled;
+  }
+
+  /**
+   * Observe status transitions and settlement
+   */
+  on<K extends keyof CommandHandleEvents>(
+    event: K,
+    listener: CommandHandleEvents[K]
+  ): Unsubscribe {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Record the response to the command request
+   */
+  accepted(response: CommandResponse): void {
+    this.id = response.id;
+    this.update(response);
+  }
+
+  /**
+   * Apply a status update reported for this command
+   */
+  update(response: CommandResponse): void {
+    if (this.settled) {
+      return;
+    }
+    this.response = response;
+    this.errorCode = response.errorCode || null;
+    this.setStatus(response.status);
+
+    if (response.status === CommandStatus.SUCCESS) {
+      this.confirmed = true;
+      this.settle(true);
+      this.resolveResult(response);
+    } else if (response.status === CommandStatus.ERROR) {
+      this.settle(false);
+      this.rejectResult(
+        new CommandFailed(this.command, this.id, this.errorCode)
+      );
+    } else if (response.status === CommandStatus.TIMEOUT) {
+      this.timeout();
+    }
+  }
+
+  /**
+   * Mark the command as not confirmed in time
+   */
+  timeout(): void {
+    if (this.settled) {
+      return;
+    }
+    this.setStatus(CommandStatus.TIMEOUT);
+    this.settle(false);
+    this.rejectResult(new CommandTimeout(this.command, this.id));
+  }
+
+  /**
+   * Resolve without confirmation from the machine
+   */
+  resolveUnconfirmed(): void {
+    if (this.settled) {
+      return;
+    }
+    this.settle(true);
+    this.resolveResult(
+      this.response || { id: this.id || "", status: this.status }
+    );
+  }
+
+  /**
+   * Cancel the command. A queued command is not sent; for a command already
+   * sent, only waiting for its confirmation stops.
+   */
+  cancel(reason?: string): void {
+    if (this.settled) {
+      return;
+    }
+    this.settle(false);
+    this.rejectResult(new CommandCancelled(this.command, this.id, reason));
+  }
+
+  /**
+   * Abort the command. Like cancel, but the handle rejects with Aborted.
+   */
+  abort(reason?: unknown): void {
+    if (this.settled) {
+      return;
+    }
+    this.settle(false);
+    this.rejectResult(
+      new Aborted(`Command ${this.command} was aborted`, reason)
+    );
+  }
+
+  /**
+   * Fail the command with an error, e.g. when the request failed
+   */
+  fail(error: Error): void {
+    if (this.settled) {
+      return;
+    }
+    if (error instanceof CommandFailed) {
+      this.errorCode = error.errorCode;
+    }
+    this.setStatus(CommandStatus.ERROR);
+    this.settle(false);
+    this.rejectResult(error);
+  }
+
+  then<TResult1 = boolean, TResult2 = never>(
+    onfulfilled?: ((value: boolean) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.outcome().then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<boolean | TResult> {
+    return this.outcome().catch(onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<boolean> {
+    return this.outcome().finally(onfinally);
+  }
+
+  /**
+   * The result as awaited: false for failed, timed out and cancelled
+   * commands, rejecting only for other errors
+   */
+  private outcome(): Promise<boolean> {
+    return this.result.then(
+      () => true,
+      (error) => {
+        if (
+          error instanceof CommandFailed ||
+          error instanceof CommandTimeout ||
+          error instanceof CommandCancelled
+        ) {
+          return false;
+        }
+        throw error;
+      }
+    );
+  }
+
+  private setStatus(status: CommandStatus): void {
+    if (this.status !== status) {
+      this.status = status;
+      this.events.emit("status", status, this);
+    }
+  }
+
+  private settle(succeeded: boolean): void {
+    this.settled = true;
+    this.events.emit("settled", succeeded, this);
+  }
+}
@@ -16,6 +16,7 @@ import {
   BackFlushStatus,
 } from "../const";
 import WebSocket from "ws";
+import { ReconnectPolicy } from "../util/backoff";
 
 /**
  * Command response model
@@ -189,6 +190,17 @@ export interface BackFlush extends BaseWidgetOutput {
 export interface ThingDashboardConfig extends Thing {
   widgets: Widget[];
   config: Partial<Record<WidgetType, BaseWidgetOutput>>;
+  commands?: CommandResponse[]; // recent command states, when reported
+}
+
+/**
+ * Change of a single widget between two dashboard states
+ */
+export interface WidgetChange {
+  widgetType: WidgetType;
+  oldValue: BaseWidgetOutput | null; // null when the widget was added
+  newValue: BaseWidgetOutput | null; // null when the widget was removed
+  changedFields: string[]; // dotted paths, e.g. "status" or "nextStatus.startTime"
 }
 
 /**
@@ -204,16 +216,54 @@ export interface ThingDashboardWebsocketConfig {
   commands: CommandResponse[];
 }
 
+/**
+ * STOMP heart-beat intervals in milliseconds (0 disables)
+ */
+export interface HeartbeatSettings {
+  outgoing: number;
+  incoming: number;
+}
+
+/**
+ * Reconnect lifecycle information
+ */
+export interface ReconnectInfo {
+  attempt: number;
+  delay: number | null;
+  lastError: Error | null;
+}
+
+/**
+ * WebSocket connection options
+ */
+export interface WebSocketConnectOptions {
+  heartbeat?: Partial<HeartbeatSettings>;
+  connectTimeout?: number; // milliseconds until CONNECTED, defaults to the heart-beat tolerance
+  reconnectPolicy?: ReconnectPolicy;
+  signal?: AbortSignal;
+  onReconnecting?: (info: ReconnectInfo) => void;
+  onReconnected?: (attempt: number) => void;
+  onReconnectFailed?: (info: ReconnectInfo) => void;
+}
+
 /**
  * WebSocket connection details
  */
 export class WebSocketDetails {
   private ws: WebSocket | null = null;
   private disconnectCallback: (() => Promise<void>) | null = null;
+  public heartbeat: HeartbeatSettings;
+  public lastMessageAt: Date | null = null;
+  public latency: number | null = null;
 
-  constructor(ws?: WebSocket, disconnectCallback?: () => Promise<void>) {
+  constructor(
+    ws?: WebSocket,
+    disconnectCallback?: () => Promise<void>,
+    heartbeat?: HeartbeatSettings
+  ) {
     this.ws = ws || null;
     this.disconnectCallback = disconnectCallback || null;
+    this.heartbeat = heartbeat || { outgoing: 0, incoming: 0 };
   }
 
   get connected(): boolean {
@@ -230,3 +280,56 @@ export class WebSocketDetails {
   }
 }
 
+/**
+ * Shared WebSocket connection state used by per-thing views
+ */
+export interface WebSocketSubscriptionSource {
+  readonly websocket: WebSocketDetails;
+  isWebsocketSubscribed(serialNumber: string): boolean;
+  websocketUnsubscribe(serialNumber: string): Promise<void>;
+}
+
+/**
+ * View of the shared WebSocket connection for a single thing
+ */
+export class ThingWebSocketDetails {
+  public serialNumber: string;
+  private source: WebSocketSubscriptionSource | null;
+
+  constructor(
+    serialNumber: string,
+    source: WebSocketSubscriptionSource | null = null
+  ) {
+    this.serialNumber = serialNumber;
+    this.source = source;
+  }
+
+  get subscribed(): boolean {
+    return this.source?.isWebsocketSubscribed(this.serialNumber) ?? false;
+  }
+
+  get connected(): boolean {
+    return this.subscribed && (this.source?.websocket.connected ?? false);
+  }
+
+  get heartbeat(): HeartbeatSettings {
+    return this.source?.websocket.heartbeat ?? { outgoing: 0, incoming: 0 };
+  }
+
+  get lastMessageAt(): Date | null {
+    return this.source?.websocket.lastMessageAt ?? null;
+  }
+
+  get latency(): number | null {
+    return this.source?.websocket.latency ?? null;
+  }
+
+  /**
+   * Unsubscribe this thing, leaving other things on the connection
+   */
+  async disconnect(): Promise<void> {
+    if (this.source) {
+      await this.source.websocketUnsubscribe(this.serialNumber);
+    }
+  }
+}
@@ -7,4 +7,6 @@ export * from "./schedule";
 export * from "./statistics";
 export * from "./update";
 export * from "./settings";
+export * from "./command";
 
+export * from "./validators";
@@ -0,0 +1,255 @@
+import { CommandStatus, MachineMode, MachineState, WidgetType } from "../const";
+import { InvalidResponse } from "../exceptions";
+import { Logger } from "../util/logger";
+import {
+  array,
+  boolean,
+  date,
+  nullable,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from "../util/validation";
+import {
+  commandResponseValidator,
+  thingDashboardValidator,
+  thingListValidator,
+  validateModel,
+} from "./validators";
+
+function thing(overrides: Record<string, unknown> = {}) {
+  return {
+    serialNumber: "MR012345",
+    type: "CoffeeMachine",
+    name: "Micra",
+    location: null,
+    modelCode: "LINEAMICRA",
+    modelName: "Linea Micra",
+    connected: true,
+    connectionDate: 1714564800000,
+    offlineMode: false,
+    requireFirmwareUpdate: false,
+    availableFirmwareUpdate: false,
+    imageUrl: "https://example.com/micra.png",
+    ...overrides,
+  };
+}
+
+function machineStatusWidget(output: Record<string, unknown> = {}) {
+  return {
+    code: WidgetType.CM_MACHINE_STATUS,
+    index: 1,
+    output: {
+      status: "PoweredOn",
+      availableModes: ["BrewingMode", "StandBy"],
+      mode: "BrewingMode",
+      nextStatus: null,
+      brewingStartTime: null,
+      ...output,
+    },
+  };
+}
+
+function recordingLogger(): Logger & { warnings: unknown[][] } {
+  const warnings: unknown[][] = [];
+  return {
+    warnings,
+    debug: () => undefined,
+    info: () => undefined,
+    warn: (message, context) => warnings.push([message, context]),
+    error: () => undefined,
+  };
+}
+
+function issuesOf(fn: () => unknown) {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(InvalidResponse);
+    return (err as InvalidResponse).issues;
+  }
+  throw new Error("Expected validation to fail");
+}
+
+describe("validation combinators", () => {
+  it("coerces numeric strings, boolean strings and dates", () => {
+    const validator = object<{ n: number; b: boolean; d: Date; s: Date }>({
+      n: number(),
+      b: boolean(),
+      d: date(),
+      s: date(),
+    });
+
+    expect(
+      validateModel(validator, {
+        n: " 4.5 ",
+        b: "false",
+        d: "1714564800000",
+        s: "2024-05-01T12:00:00Z",
+      })
+    ).toEqual({
+      n: 4.5,
+      b: false,
+      d: new Date(1714564800000),
+      s: new Date("2024-05-01T12:00:00Z"),
+    });
+  });
+
+  it("reports missing and mismatched values with their paths", () => {
+    const validator = object<{ items: { id: string }[]; count: number }>({
+      items: array(object({ id: string() })),
+      count: number(),
+    });
+
+    expect(
+      issuesOf(() =>
+        validateModel(validator, { items: [{ id: "a" }, { id: 2 }] })
+      )
+    ).toEqual([
+      { path: "items[1].id", message: "expected string, received number" },
+      { path: "count", message: "missing required number" },
+    ]);
+  });
+
+  it("accepts missing optional and null nullable values", () => {
+    const validator = object<{ a?: string; b: string | null }>({
+      a: optional(string()),
+      b: nullable(string()),
+    });
+
+    expect(validateModel(validator, { b: null })).toEqual({ b: null });
+    expect(issuesOf(() => validateModel(validator, {}))).toEqual([
+      { path: "b", message: "missing required string" },
+    ]);
+  });
+
+  it("validates every entry of a record", () => {
+    expect(
+      issuesOf(() => validateModel(record(number()), { a: 1, b: "x" }))
+    ).toEqual([{ path: "b", message: 'expected number, received string "x"' }]);
+  });
+});
+
+describe("validateModel", () => {
+  it("drops unknown fields in strict mode", () => {
+    const [result] = validateModel(thingListValidator, [
+      thing({ futureField: 1 }),
+    ]);
+
+    expect(result).not.toHaveProperty("futureField");
+    expect(result.connectionDate).toEqual(new Date(1714564800000));
+  });
+
+  it("throws InvalidResponse listing every issue in strict mode", () => {
+    const details = {
+      method: "GET",
+      url: "https://example.com/things",
+      status: 200,
+    };
+    let error: InvalidResponse | undefined;
+    try {
+      validateModel(
+        thingListValidator,
+        [thing({ connected: "yes", modelCode: "LINEA9000" })],
+        { details }
+      );
+    } catch (err) {
+      error = err as InvalidResponse;
+    }
+
+    expect(error).toBeInstanceOf(InvalidResponse);
+    expect(error?.url).toBe(details.url);
+    expect(error?.status).toBe(200);
+    expect(error?.issues.map((issue) => issue.path)).toEqual([
+      "[0].modelCode",
+      "[0].connected",
+    ]);
+    expect(error?.message).toContain(
+      '[0].connected: expected boolean, received string "yes"'
+    );
+  });
+
+  it("names the response when the value itself mismatches", () => {
+    expect(() => validateModel(thingListValidator, null)).toThrow(
+      "response: expected array, received null"
+    );
+  });
+
+  it("warns and keeps received values in lenient mode", () => {
+    const logger = recordingLogger();
+
+    const [result] = validateModel(
+      thingListValidator,
+      [thing({ connected: "yes", futureField: 1 })],
+      { mode: "lenient", logger }
+    );
+
+    expect(result.connected).toBe("yes");
+    expect(result).toHaveProperty("futureField", 1);
+    expect(logger.warnings).toEqual([
+      [
+        "Response does not match the expected model",
+        {
+          url: undefined,
+          issues: [
+            {
+              path: "[0].connected",
+              message: 'expected boolean, received string "yes"',
+            },
+          ],
+        },
+      ],
+    ]);
+  });
+
+  it("does not warn for a valid value in lenient mode", () => {
+    const logger = recordingLogger();
+
+    validateModel(commandResponseValidator, { id: "1", status: "Success" }, {
+      mode: "lenient",
+      logger,
+    });
+
+    expect(logger.warnings).toEqual([]);
+  });
+
+  it("validates widget outputs by widget code", () => {
+    const dashboard = thing({
+      widgets: [machineStatusWidget({ status: "Sleeping" })],
+    });
+
+    expect(
+      issuesOf(() => validateModel(thingDashboardValidator, dashboard))
+    ).toEqual([
+      {
+        path: "widgets[0].output.status",
+        message: expect.stringContaining('received string "Sleeping"'),
+      },
+    ]);
+  });
+
+  it("passes through outputs of widgets it does not model", () => {
+    const output = { anything: [1, 2, 3] };
+    const result = validateModel(
+      thingDashboardValidator,
+      thing({
+        widgets: [
+          machineStatusWidget(),
+          { code: "CMFutureWidget", index: 1, output },
+        ],
+        commands: [{ id: "c1", status: "Pending", errorCode: null }],
+      })
+    );
+
+    expect(result.widgets[0].output).toMatchObject({
+      status: MachineState.POWERED_ON,
+      mode: MachineMode.BREWING_MODE,
+    });
+    expect(result.widgets[1].output).toEqual(output);
+    expect(result.commands).toEqual([
+      { id: "c1", status: CommandStatus.PENDING, errorCode: null },
+    ]);
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * Runtime validators for the models
+ */
+
+import {
+  BackFlushStatus,
+  BoilerStatus,
+  CommandStatus,
+  DeviceType,
+  DoseMode,
+  FirmwareType,
+  MachineMode,
+  MachineState,
+  ModelCode,
+  ModelName,
+  PreExtractionMode,
+  SteamTargetLevel,
+  UpdateStatus,
+  WeekDay,
+  WidgetType,
+} from "../const";
+import { InvalidResponse, RequestErrorDetails } from "../exceptions";
+import { Logger } from "../util/logger";
+import {
+  ValidationContext,
+  ValidationMode,
+  Validator,
+  ValidatorShape,
+  array,
+  boolean,
+  date,
+  joinPath,
+  literal,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  unknown,
+} from "../util/validation";
+import {
+  BackFlush,
+  BaseWidget,
+  BaseWidgetOutput,
+  CoffeeBoiler,
+  CommandResponse,
+  LastBrewInfo,
+  MachineStatus,
+  NextStatus,
+  NoWater,
+  PreExtraction,
+  SteamBoilerLevel,
+  SteamBoilerTemperature,
+  Thing,
+  ThingDashboardConfig,
+  ThingDashboardWebsocketConfig,
+  Widget,
+} from "./general";
+import { ThingSchedulingSettings, WakeUpScheduleSettings } from "./schedule";
+import { BrewByWeightDoses, DoseInfo, ThingSettings } from "./settings";
+import {
+  CoffeeAndFlushCounter,
+  CoffeeAndFlushTrend,
+  LastCoffee,
+  LastCoffeeList,
+  ThingStatistics,
+} from "./statistics";
+import { FirmwareSettings, UpdateDetails } from "./update";
+
+export { ValidationMode, Validator };
+
+/**
+ * Options for validating a model
+ */
+export interface ValidationOptions {
+  mode?: ValidationMode; // defaults to strict
+  logger?: Logger; // receives the issues found in lenient mode
+  details?: RequestErrorDetails | null; // request the value was received from
+}
+
+/**
+ * Validate a value against a model, coercing dates and numbers. In strict
+ * mode mismatches throw InvalidResponse listing every issue; in lenient mode
+ * they are logged as a warning.
+ */
+export function validateModel<T>(
+  validator: Validator<T>,
+  value: unknown,
+  options: ValidationOptions = {}
+): T {
+  const context: ValidationContext = {
+    mode: options.mode ?? "strict",
+    issues: [],
+  };
+  const result = validator(value, "", context);
+  if (context.issues.length === 0) {
+    return result;
+  }
+
+  if (context.mode === "strict") {
+    const summary = context.issues
+      .map((issue) => `${issue.path || "response"}: ${issue.message}`)
+      .join("; ");
+    throw new InvalidResponse(
+      `Response does not match the expected model: ${summary}`,
+      options.details ?? null,
+      context.issues
+    );
+  }
+  options.logger?.warn("Response does not match the expected model", {
+    url: options.details?.url,
+    issues: context.issues,
+  });
+  return result;
+}
+
+export const commandResponseValidator = object<CommandResponse>({
+  id: string(),
+  status: oneOf(CommandStatus),
+  errorCode: optional(nullable(string())),
+});
+
+const thingShape: ValidatorShape<Thing> = {
+  serialNumber: string(),
+  type: oneOf(DeviceType),
+  name: string(),
+  location: optional(nullable(string())),
+  modelCode: oneOf(ModelCode),
+  modelName: oneOf(ModelName),
+  connected: boolean(),
+  connectionDate: date(),
+  offlineMode: boolean(),
+  requireFirmwareUpdate: boolean(),
+  availableFirmwareUpdate: boolean(),
+  coffeeStation: optional(unknown()),
+  imageUrl: string(),
+  bleAuthToken: optional(nullable(string())),
+};
+
+export const thingValidator = object<Thing>(thingShape);
+
+export const thingListValidator = array(thingValidator);
+
+// #region Widgets
+
+const lastBrewInfoValidator = object<LastBrewInfo>({
+  time: number(),
+  extractionSeconds: number(),
+  doseMode: string(),
+  doseIndex: string(),
+  doseValue: number(),
+  doseValueNumerator: optional(nullable(number())),
+});
+
+const nextStatusValidator = object<NextStatus>({
+  status: oneOf(MachineState),
+  startTime: date(),
+});
+
+const doseInfoValidator = object<DoseInfo>({
+  dose: number(),
+  target: number(),
+});
+
+/**
+ * Validators of the widget outputs modelled by this library
+ */
+const widgetOutputValidators: Partial<
+  Record<WidgetType, Validator<BaseWidgetOutput>>
+> = {
+  [WidgetType.CM_MACHINE_STATUS]: object<MachineStatus>({
+    widgetType: optional(literal(WidgetType.CM_MACHINE_STATUS)),
+    status: oneOf(MachineState),
+    availableModes: array(oneOf(MachineMode)),
+    mode: oneOf(MachineMode),
+    nextStatus: optional(nullable(nextStatusValidator)),
+    brewingStartTime: optional(nullable(number())),
+    lastCoffee: optional(nullable(lastBrewInfoValidator)),
+    lastFlush: optional(nullable(lastBrewInfoValidator)),
+  }),
+  [WidgetType.CM_COFFEE_BOILER]: object<CoffeeBoiler>({
+    widgetType: optional(literal(WidgetType.CM_COFFEE_BOILER)),
+    status: oneOf(BoilerStatus),
+    enabled: boolean(),
+    enabledSupported: boolean(),
+    targetTemperature: number(),
+    targetTemperatureMin: number(),
+    targetTemperatureMax: number(),
+    targetTemperatureStep: number(),
+    readyStartTime: optional(nullable(date())),
+  }),
+  [WidgetType.CM_STEAM_BOILER_LEVEL]: object<SteamBoilerLevel>({
+    widgetType: optional(literal(WidgetType.CM_STEAM_BOILER_LEVEL)),
+    status: oneOf(BoilerStatus),
+    enabled: boolean(),
+    enabledSupported: boolean(),
+    targetLevel: oneOf(SteamTargetLevel),
+    targetLevelSupported: boolean(),
+  }),
+  [WidgetType.CM_STEAM_BOILER_TEMPERATURE]: object<SteamBoilerTemperature>({
+    widgetType: optional(literal(WidgetType.CM_STEAM_BOILER_TEMPERATURE)),
+    status: oneOf(BoilerStatus),
+    enabled: boolean(),
+    enabledSupported: boolean(),
+    targetTemperature: number(),
+    targetTemperatureMin: number(),
+    targetTemperatureMax: number(),
+    targetTemperatureStep: number(),
+    targetTemperatureSupported: boolean(),
+  }),
+  [WidgetType.CM_NO_WATER]: object<NoWater>({
+    widgetType: optional(literal(WidgetType.CM_NO_WATER)),
+    allarm: boolean(),
+  }),
+  [WidgetType.CM_PRE_EXTRACTION]: object<PreExtraction>({
+    widgetType: optional(literal(WidgetType.CM_PRE_EXTRACTION)),
+    mode: oneOf(PreExtractionMode),
+  }),
+  [WidgetType.CM_BACK_FLUSH]: object<BackFlush>({
+    widgetType: optional(literal(WidgetType.CM_BACK_FLUSH)),
+    status: oneOf(BackFlushStatus),
+  }),
+  [WidgetType.CM_BREW_BY_WEIGHT_DOSES]: object<BrewByWeightDoses>({
+    mode: oneOf(DoseMode),
+    doses: object<BrewByWeightDoses["doses"]>({
+      dose1: doseInfoValidator,
+      dose2: doseInfoValidator,
+    }),
+  }) as Validator<BaseWidgetOutput>,
+};
+
+// Outputs of widgets not modelled here are passed through
+const genericWidgetOutputValidator = object<BaseWidgetOutput>(
+  { widgetType: optional(string()) as Validator<WidgetType | undefined> },
+  { passthrough: true }
+);
+
+const baseWidgetValidator = object<BaseWidget>({
+  code: string() as Validator<WidgetType>,
+  index: number(),
+});
+
+const widgetEnvelopeValidator = object<Widget>({
+  code: string() as Validator<WidgetType>,
+  index: number(),
+  output: unknown(),
+});
+
+/**
+ * Validates a widget and its output according to the widget code
+ */
+export const widgetValidator: Validator<Widget> = (value, path, context) => {
+  const widget = widgetEnvelopeValidator(value, path, context);
+  if (typeof widget !== "object" || widget === null) {
+    return widget;
+  }
+
+  const outputValidator =
+    widgetOutputValidators[widget.code] ?? genericWidgetOutputValidator;
+  return {
+    ...widget,
+    output: outputValidator(widget.output, joinPath(path, "output"), context),
+  };
+};
+
+// #endregion
+
+export const thingDashboardValidator = object<
+  Omit<ThingDashboardConfig, "config">
+>({
+  ...thingShape,
+  widgets: array(widgetValidator),
+  commands: optional(array(commandResponseValidator)),
+}) as Validator<ThingDashboardConfig>;
+
+/**
+ * Validates websocket dashboard messages, which may carry only the widgets
+ * that changed
+ */
+export const dashboardWebsocketValidator = object<
+  Partial<Omit<ThingDashboardWebsocketConfig, "config">>
+>({
+  widgets: optional(array(widgetValidator)),
+  removedWidgets: optional(array(baseWidgetValidator)),
+  connected: optional(boolean()),
+  connectionDate: optional(number()),
+  uuid: optional(string()),
+  commands: optional(array(commandResponseValidator)),
+}) as Validator<ThingDashboardWebsocketConfig>;
+
+export const thingSettingsValidator = object<ThingSettings>(
+  { serialNumber: string() },
+  { passthrough: true }
+);
+
+export const wakeUpScheduleValidator = object<WakeUpScheduleSettings>({
+  id: optional(string()),
+  enabled: boolean(),
+  days: array(oneOf(WeekDay)),
+  hour: number(),
+  minute: number(),
+});
+
+export const thingSchedulingSettingsValidator =
+  object<ThingSchedulingSettings>({
+    serialNumber: string(),
+    wakeUpSchedules: optional(array(wakeUpScheduleValidator)),
+  });
+
+export const thingStatisticsValidator = object<ThingStatistics>({
+  serialNumber: string(),
+  widgets: unknown(),
+});
+
+export const coffeeAndFlushCounterValidator = object<CoffeeAndFlushCounter>({
+  totalFlushCount: number(),
+  totalCoffeeCount: number(),
+});
+
+export const coffeeAndFlushTrendValidator = object<CoffeeAndFlushTrend>({
+  days: array(
+    object<CoffeeAndFlushTrend["days"][number]>({
+      date: string(),
+      coffeeCount: number(),
+      flushCount: number(),
+    })
+  ),
+});
+
+export const lastCoffeeListValidator = object<LastCoffeeList>({
+  coffees: array(
+    object<LastCoffee>({
+      timestamp: date(),
+      duration: number(),
+      volume: number(),
+    })
+  ),
+});
+
+const firmwareSettingsValidator = object<FirmwareSettings>({
+  firmwareType: oneOf(FirmwareType),
+  version: string(),
+  available: boolean(),
+});
+
+export const updateDetailsValidator = object<UpdateDetails>({
+  status: oneOf(UpdateStatus),
+  firmware: array(firmwareSettingsValidator),
+  progress: optional(number()),
+});
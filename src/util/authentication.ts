@@ -2,25 +2,57 @@
  * Authentication related utilities for La Marzocco API
  */
 
-import * as crypto from "crypto";
-import { v4 as uuidv4 } from "uuid";
+import type * as NodeCrypto from "crypto";
+import { v4 as uuidv4, validate as uuidValidate } from "uuid";
+import { InstallationKeyProblem, InvalidInstallationKey } from "../exceptions";
 
-const TOKEN_EXPIRATION = 60 * 60; // 1 hour in seconds
+const TOKEN_EXPIRATION = 60 * 60; // 1 hour in seconds, when not provided
+const TOKEN_CLOCK_SKEW = 60; // seconds subtracted from provided expiries
+
+const KEY_ENVELOPE_VERSION = 1;
+const KEY_ENVELOPE_AAD = "lamarzocco-installation-key";
+const SCRYPT_COST = 1 << 15;
+const SCRYPT_BLOCK_SIZE = 8;
+const SCRYPT_PARALLELIZATION = 1;
+
+let nodeCryptoModule: typeof NodeCrypto | null = null;
+
+/**
+ * Node's crypto module, loaded on first use so that the package can be
+ * loaded without it when the WebCrypto backend is used
+ */
+function nodeCrypto(): typeof NodeCrypto {
+  if (!nodeCryptoModule) {
+    nodeCryptoModule = require("crypto") as typeof NodeCrypto;
+  }
+  return nodeCryptoModule;
+}
 
 /**
- * Base64 encode a buffer to ASCII string
+ * View bytes as a Buffer without copying, as expected by Node's crypto module
  */
-function b64(data: Buffer): string {
-  return data.toString("base64");
+function toBuffer(data: Uint8Array): Buffer {
+  return Buffer.isBuffer(data)
+    ? data
+    : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
 }
 
 /**
- * Holds key material derived from installation ID
+ * Base64 encode bytes to ASCII string
+ */
+function b64(data: Uint8Array): string {
+  return toBuffer(data).toString("base64");
+}
+
+/**
+ * Holds key material derived from installation ID. Keys of the Node backend
+ * hold Buffers, keys of the WebCrypto backend plain Uint8Arrays.
  */
 export interface InstallationKey {
-  secret: Buffer;
-  privateKey: Buffer;
+  secret: Uint8Array;
+  privateKey: Uint8Array;
   installationId: string;
+  registeredAt?: Date | null; // when the key was registered, null if not yet
 }
 
 /**
@@ -30,6 +62,28 @@ export interface InstallationKeyJSON {
   secret: string; // base64
   privateKey: string; // base64 DER format
   installationId: string;
+  registeredAt?: string; // ISO 8601
+}
+
+/**
+ * Passphrase-protected installation key. The plain JSON format is encrypted
+ * with AES-256-GCM under a key derived from the passphrase with scrypt.
+ */
+export interface EncryptedInstallationKeyJSON {
+  version: number;
+  kdf: {
+    name: "scrypt";
+    salt: string; // base64
+    cost: number;
+    blockSize: number;
+    parallelization: number;
+  };
+  cipher: {
+    name: "aes-256-gcm";
+    iv: string; // base64
+    tag: string; // base64
+  };
+  ciphertext: string; // base64
 }
 
 /**
@@ -61,13 +115,13 @@ export interface RefreshTokenRequest {
  * Get public key in base64-encoded DER format
  */
 export function getPublicKeyB64(installationKey: InstallationKey): string {
-  const keyObject = crypto.createPrivateKey({
-    key: installationKey.privateKey,
+  const keyObject = nodeCrypto().createPrivateKey({
+    key: toBuffer(installationKey.privateKey),
     format: "der",
     type: "pkcs8",
   });
 
-  const publicKey = crypto.createPublicKey(keyObject);
+  const publicKey = nodeCrypto().createPublicKey(keyObject);
   const publicKeyDer = publicKey.export({ format: "der", type: "spki" });
 
   return b64(publicKeyDer);
@@ -77,15 +131,15 @@ export function getPublicKeyB64(installationKey: InstallationKey): string {
  * Get base string: installation_id.sha256(public_key_der_bytes)
  */
 export function getBaseString(installationKey: InstallationKey): string {
-  const keyObject = crypto.createPrivateKey({
-    key: installationKey.privateKey,
+  const keyObject = nodeCrypto().createPrivateKey({
+    key: toBuffer(installationKey.privateKey),
     format: "der",
     type: "pkcs8",
   });
 
-  const publicKey = crypto.createPublicKey(keyObject);
+  const publicKey = nodeCrypto().createPublicKey(keyObject);
   const publicKeyDer = publicKey.export({ format: "der", type: "spki" });
-  const pubHash = crypto.createHash("sha256").update(publicKeyDer).digest();
+  const pubHash = nodeCrypto().createHash("sha256").update(publicKeyDer).digest();
   const pubHashB64 = b64(pubHash);
 
   return `${installationKey.installationId}.${pubHashB64}`;
@@ -96,7 +150,7 @@ export function getBaseString(installationKey: InstallationKey): string {
  */
 export function generateRequestProof(
   baseString: string,
-  secret32: Buffer
+  secret32: Uint8Array
 ): string {
   if (secret32.length !== 32) {
     throw new Error("secret must be 32 bytes");
@@ -116,7 +170,7 @@ export function generateRequestProof(
     work[idx] = rotated;
   }
 
-  const hash = crypto.createHash("sha256").update(work).digest();
+  const hash = nodeCrypto().createHash("sha256").update(work).digest();
   return b64(hash);
 }
 
@@ -138,13 +192,13 @@ export function generateExtraRequestHeaders(
   const signatureData = `${proofInput}.${proof}`;
 
   // Sign with ECDSA
-  const keyObject = crypto.createPrivateKey({
-    key: installationKey.privateKey,
+  const keyObject = nodeCrypto().createPrivateKey({
+    key: toBuffer(installationKey.privateKey),
     format: "der",
     type: "pkcs8",
   });
 
-  const sign = crypto.createSign("SHA256");
+  const sign = nodeCrypto().createSign("SHA256");
   sign.update(signatureData);
   const signature = sign.sign(keyObject);
   const signatureB64 = b64(signature);
@@ -163,10 +217,10 @@ export function generateExtraRequestHeaders(
  */
 function deriveSecretBytes(installationId: string, pubDerBytes: Buffer): Buffer {
   const pubB64 = b64(pubDerBytes);
-  const instHash = crypto.createHash("sha256").update(installationId, "utf-8").digest();
+  const instHash = nodeCrypto().createHash("sha256").update(installationId, "utf-8").digest();
   const instHashB64 = b64(instHash);
   const triple = `${installationId}.${pubB64}.${instHashB64}`;
-  return crypto.createHash("sha256").update(triple, "utf-8").digest(); // 32 bytes
+  return nodeCrypto().createHash("sha256").update(triple, "utf-8").digest(); // 32 bytes
 }
 
 /**
@@ -174,7 +228,7 @@ function deriveSecretBytes(installationId: string, pubDerBytes: Buffer): Buffer
  */
 export function generateInstallationKey(installationId: string): InstallationKey {
   // Generate ECDSA P-256 key pair
-  const { privateKey } = crypto.generateKeyPairSync("ec", {
+  const { privateKey } = nodeCrypto().generateKeyPairSync("ec", {
     namedCurve: "prime256v1", // SECP256R1 / P-256
     privateKeyEncoding: {
       type: "pkcs8",
@@ -186,13 +240,13 @@ export function generateInstallationKey(installationId: string): InstallationKey
     },
   });
 
-  const keyObject = crypto.createPrivateKey({
+  const keyObject = nodeCrypto().createPrivateKey({
     key: privateKey,
     format: "der",
     type: "pkcs8",
   });
 
-  const publicKey = crypto.createPublicKey(keyObject);
+  const publicKey = nodeCrypto().createPublicKey(keyObject);
   const pubBytes = publicKey.export({ format: "der", type: "spki" });
 
   const secretBytes = deriveSecretBytes(installationId, pubBytes as Buffer);
@@ -205,40 +259,381 @@ export function generateInstallationKey(installationId: string): InstallationKey
 }
 
 /**
- * Serialize installation key to JSON
+ * Serialize installation key to JSON, encrypted if a passphrase is given
  */
-export function installationKeyToJSON(key: InstallationKey): string {
+export function installationKeyToJSON(
+  key: InstallationKey,
+  passphrase?: string
+): string {
   const obj: InstallationKeyJSON = {
     secret: b64(key.secret),
     privateKey: b64(key.privateKey),
     installationId: key.installationId,
   };
-  return JSON.stringify(obj);
+  if (key.registeredAt) {
+    obj.registeredAt = key.registeredAt.toISOString();
+  }
+  if (passphrase === undefined) {
+    return JSON.stringify(obj);
+  }
+  return JSON.stringify(encryptKeyJSON(JSON.stringify(obj), passphrase));
 }
 
 /**
- * Deserialize installation key from JSON
+ * Deserialize installation key from JSON, decrypting it with the passphrase
+ * if it is encrypted
  */
-export function installationKeyFromJSON(json: string): InstallationKey {
-  const obj: InstallationKeyJSON = JSON.parse(json);
+export function installationKeyFromJSON(
+  json: string,
+  passphrase?: string
+): InstallationKey {
+  let obj = JSON.parse(json);
+  if (isEncryptedInstallationKey(obj)) {
+    if (passphrase === undefined) {
+      throw new InvalidInstallationKey(
+        "Installation key is encrypted, a passphrase is required"
+      );
+    }
+    obj = JSON.parse(decryptKeyJSON(obj, passphrase));
+  } else if (obj && typeof obj === "object" && "version" in obj) {
+    throw new InvalidInstallationKey(
+      `Unsupported installation key format version ${obj.version}`
+    );
+  }
+
+  const key = parseInstallationKeyJSON(obj, (data) =>
+    Buffer.from(data, "base64")
+  );
+  const problems = validateInstallationKey(key);
+  if (problems.length > 0) {
+    throw invalidKeyError(problems);
+  }
+  return key;
+}
+
+/**
+ * Check that key material is usable: the installation id is a UUID, the
+ * private key is a P-256 key in PKCS#8 DER format and the secret is the
+ * 32 bytes derived from both
+ */
+export function validateInstallationKey(
+  key: InstallationKey
+): InstallationKeyProblem[] {
+  const problems: InstallationKeyProblem[] = [];
+
+  if (!uuidValidate(key.installationId)) {
+    problems.push({ field: "installationId", message: "not a UUID" });
+  }
+
+  let publicKeyDer: Buffer | null = null;
+  try {
+    const keyObject = nodeCrypto().createPrivateKey({
+      key: toBuffer(key.privateKey),
+      format: "der",
+      type: "pkcs8",
+    });
+    if (
+      keyObject.asymmetricKeyType !== "ec" ||
+      keyObject.asymmetricKeyDetails?.namedCurve !== "prime256v1"
+    ) {
+      problems.push({ field: "privateKey", message: "not a P-256 EC key" });
+    } else {
+      publicKeyDer = nodeCrypto()
+        .createPublicKey(keyObject)
+        .export({ format: "der", type: "spki" });
+    }
+  } catch (error) {
+    problems.push({
+      field: "privateKey",
+      message: "not a PKCS#8 DER encoded private key",
+    });
+  }
+
+  if (key.secret.length !== 32) {
+    problems.push({
+      field: "secret",
+      message: `expected 32 bytes, got ${key.secret.length}`,
+    });
+  } else if (
+    publicKeyDer &&
+    !nodeCrypto().timingSafeEqual(
+      toBuffer(key.secret),
+      deriveSecretBytes(key.installationId, publicKeyDer)
+    )
+  ) {
+    problems.push({
+      field: "secret",
+      message: "does not match installation id and private key",
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Read plain serialized key material, decoding its base64 fields with the
+ * given function. The key material is not validated.
+ */
+export function parseInstallationKeyJSON(
+  obj: unknown,
+  decodeB64: (data: string) => Uint8Array
+): InstallationKey {
+  const plain = obj as Partial<InstallationKeyJSON> | null;
+  const missing = (["secret", "privateKey", "installationId"] as const)
+    .filter((field) => typeof plain?.[field] !== "string")
+    .map((field) => ({ field, message: "missing or not a string" }));
+  if (!plain || missing.length > 0) {
+    throw invalidKeyError(missing);
+  }
+
   return {
-    secret: Buffer.from(obj.secret, "base64"),
-    privateKey: Buffer.from(obj.privateKey, "base64"),
-    installationId: obj.installationId,
+    secret: decodeB64(plain.secret!),
+    privateKey: decodeB64(plain.privateKey!),
+    installationId: plain.installationId!,
+    registeredAt: plain.registeredAt ? new Date(plain.registeredAt) : null,
   };
 }
 
+/**
+ * Create the error reporting validation problems of key material
+ */
+export function invalidKeyError(
+  problems: InstallationKeyProblem[]
+): InvalidInstallationKey {
+  const details = problems
+    .map((problem) => `${problem.field} ${problem.message}`)
+    .join(", ");
+  return new InvalidInstallationKey(
+    `Invalid installation key: ${details}`,
+    problems
+  );
+}
+
+/**
+ * Check whether serialized key material is a passphrase-protected envelope
+ */
+export function isEncryptedInstallationKey(
+  obj: unknown
+): obj is EncryptedInstallationKeyJSON {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    (obj as EncryptedInstallationKeyJSON).version === KEY_ENVELOPE_VERSION &&
+    typeof (obj as EncryptedInstallationKeyJSON).ciphertext === "string"
+  );
+}
+
+/**
+ * Derive the envelope encryption key from a passphrase
+ */
+function deriveEnvelopeKey(
+  passphrase: string,
+  kdf: EncryptedInstallationKeyJSON["kdf"]
+): Buffer {
+  return nodeCrypto().scryptSync(
+    Buffer.from(passphrase, "utf-8"),
+    Buffer.from(kdf.salt, "base64"),
+    32,
+    {
+      N: kdf.cost,
+      r: kdf.blockSize,
+      p: kdf.parallelization,
+      maxmem: 256 * kdf.cost * kdf.blockSize,
+    }
+  );
+}
+
+/**
+ * Encrypt serialized key material with a passphrase
+ */
+function encryptKeyJSON(
+  plaintext: string,
+  passphrase: string
+): EncryptedInstallationKeyJSON {
+  const kdf: EncryptedInstallationKeyJSON["kdf"] = {
+    name: "scrypt",
+    salt: b64(nodeCrypto().randomBytes(16)),
+    cost: SCRYPT_COST,
+    blockSize: SCRYPT_BLOCK_SIZE,
+    parallelization: SCRYPT_PARALLELIZATION,
+  };
+  const iv = nodeCrypto().randomBytes(12);
+  const cipher = nodeCrypto().createCipheriv(
+    "aes-256-gcm",
+    deriveEnvelopeKey(passphrase, kdf),
+    iv
+  );
+  cipher.setAAD(Buffer.from(KEY_ENVELOPE_AAD, "utf-8"));
+  const ciphertext = Buffer.concat([
+    cipher.update(plaintext, "utf-8"),
+    cipher.final(),
+  ]);
+
+  return {
+    version: KEY_ENVELOPE_VERSION,
+    kdf,
+    cipher: {
+      name: "aes-256-gcm",
+      iv: b64(iv),
+      tag: b64(cipher.getAuthTag()),
+    },
+    ciphertext: b64(ciphertext),
+  };
+}
+
+/**
+ * Check that a value is an integer within bounds
+ */
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * Decrypt serialized key material with a passphrase
+ */
+function decryptKeyJSON(
+  envelope: EncryptedInstallationKeyJSON,
+  passphrase: string
+): string {
+  if (
+    envelope.kdf?.name !== "scrypt" ||
+    envelope.cipher?.name !== "aes-256-gcm"
+  ) {
+    throw new InvalidInstallationKey("Unsupported installation key encryption");
+  }
+  // Parameters beyond the ones written here would let a corrupted or hostile
+  // file make scrypt allocate without limit
+  const { cost, blockSize, parallelization } = envelope.kdf;
+  if (
+    !isIntegerInRange(cost, 2, SCRYPT_COST) ||
+    !isIntegerInRange(blockSize, 1, SCRYPT_BLOCK_SIZE) ||
+    !isIntegerInRange(parallelization, 1, SCRYPT_PARALLELIZATION)
+  ) {
+    throw new InvalidInstallationKey(
+      "Unsupported installation key encryption parameters"
+    );
+  }
+
+  try {
+    const decipher = nodeCrypto().createDecipheriv(
+      "aes-256-gcm",
+      deriveEnvelopeKey(passphrase, envelope.kdf),
+      Buffer.from(envelope.cipher.iv, "base64")
+    );
+    decipher.setAAD(Buffer.from(KEY_ENVELOPE_AAD, "utf-8"));
+    decipher.setAuthTag(Buffer.from(envelope.cipher.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(envelope.ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch (error) {
+    throw new InvalidInstallationKey(
+      "Could not decrypt installation key, wrong passphrase or corrupted data"
+    );
+  }
+}
+
+/**
+ * Decode the claims of a JWT without verifying its signature
+ */
+export function decodeJwtClaims(token: string): Record<string, any> | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) {
+    return null;
+  }
+  try {
+    const claims = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+    return claims && typeof claims === "object" ? claims : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Determine when an access token expires, as a Unix timestamp.
+ * Uses `expiresIn` seconds when provided, then the JWT `exp` claim, and
+ * falls back to one hour.
+ */
+export function getTokenExpiry(
+  accessToken: string,
+  expiresIn?: number | null,
+  now: number = Math.floor(Date.now() / 1000)
+): number {
+  if (typeof expiresIn === "number" && expiresIn > 0) {
+    return now + expiresIn - TOKEN_CLOCK_SKEW;
+  }
+
+  const claims = decodeJwtClaims(accessToken);
+  if (claims && typeof claims.exp === "number") {
+    // The lifetime since issue does not depend on the server's clock
+    if (typeof claims.iat === "number" && claims.exp > claims.iat) {
+      return now + (claims.exp - claims.iat) - TOKEN_CLOCK_SKEW;
+    }
+    return claims.exp - TOKEN_CLOCK_SKEW;
+  }
+
+  return now + TOKEN_EXPIRATION;
+}
+
 /**
  * Create an access token response with expiration time
  */
 export function createAccessToken(
   accessToken: string,
-  refreshToken: string
+  refreshToken: string,
+  expiresIn?: number | null
 ): AccessToken {
   return {
     accessToken,
     refreshToken,
-    expiresAt: Math.floor(Date.now() / 1000) + TOKEN_EXPIRATION,
+    expiresAt: getTokenExpiry(accessToken, expiresIn),
   };
 }
 
+/**
+ * Cryptographic operations used for authentication. Implemented with Node's
+ * crypto module and with WebCrypto for other runtimes.
+ */
+export interface AuthenticationBackend {
+  generateInstallationKey(installationId: string): Promise<InstallationKey>;
+  getPublicKeyB64(installationKey: InstallationKey): Promise<string>;
+  getBaseString(installationKey: InstallationKey): Promise<string>;
+  generateRequestProof(
+    baseString: string,
+    secret32: Uint8Array
+  ): Promise<string>;
+  generateExtraRequestHeaders(
+    installationKey: InstallationKey
+  ): Promise<Record<string, string>>;
+  installationKeyToJSON(
+    key: InstallationKey,
+    passphrase?: string
+  ): Promise<string>;
+  installationKeyFromJSON(
+    json: string,
+    passphrase?: string
+  ): Promise<InstallationKey>;
+}
+
+/**
+ * Authentication backend using Node's crypto module
+ */
+export const nodeAuthenticationBackend: AuthenticationBackend = {
+  generateInstallationKey: async (installationId) =>
+    generateInstallationKey(installationId),
+  getPublicKeyB64: async (installationKey) => getPublicKeyB64(installationKey),
+  getBaseString: async (installationKey) => getBaseString(installationKey),
+  generateRequestProof: async (baseString, secret32) =>
+    generateRequestProof(baseString, secret32),
+  generateExtraRequestHeaders: async (installationKey) =>
+    generateExtraRequestHeaders(installationKey),
+  installationKeyToJSON: async (key, passphrase) =>
+    installationKeyToJSON(key, passphrase),
+  installationKeyFromJSON: async (json, passphrase) =>
+    installationKeyFromJSON(json, passphrase),
+};
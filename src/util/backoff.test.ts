@@ -0,0 +1,151 @@
+import {
+  ExponentialBackoffPolicy,
+  HttpRetryPolicy,
+  RequestFailure,
+  computeBackoffDelay,
+  defaultCommandRetryPolicy,
+  parseRetryAfter,
+} from "./backoff";
+
+function failure(overrides: Partial<RequestFailure> = {}): RequestFailure {
+  return {
+    method: "GET",
+    url: "https://example.com/things",
+    status: null,
+    code: null,
+    retryAfter: null,
+    ...overrides,
+  };
+}
+
+describe("computeBackoffDelay", () => {
+  const options = { initialDelay: 100, maxDelay: 1000, multiplier: 2, jitter: 0 };
+
+  it("grows exponentially up to the maximum delay", () => {
+    expect(
+      [1, 2, 3, 4, 5].map((attempt) => computeBackoffDelay(attempt, options))
+    ).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it("keeps jittered delays between base minus spread and base", () => {
+    for (let i = 0; i < 50; i++) {
+      const delay = computeBackoffDelay(3, { ...options, jitter: 0.5 });
+      expect(delay).toBeGreaterThanOrEqual(200);
+      expect(delay).toBeLessThanOrEqual(400);
+    }
+  });
+});
+
+describe("ExponentialBackoffPolicy", () => {
+  it("stops after the maximum number of attempts", () => {
+    const policy = new ExponentialBackoffPolicy({ maxAttempts: 2, jitter: 0 });
+
+    expect(policy.nextDelay(1)).toBe(1000);
+    expect(policy.nextDelay(2)).toBe(2000);
+    expect(policy.nextDelay(3)).toBeNull();
+  });
+});
+
+describe("HttpRetryPolicy", () => {
+  const policy = new HttpRetryPolicy({ jitter: 0 });
+
+  it("retries transient status codes with backoff", () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) {
+      expect(policy.nextDelay(1, failure({ status }))).toBe(500);
+    }
+    expect(policy.nextDelay(2, failure({ status: 503 }))).toBe(1000);
+  });
+
+  it("does not retry client errors", () => {
+    for (const status of [400, 401, 403, 404, 501]) {
+      expect(policy.nextDelay(1, failure({ status }))).toBeNull();
+    }
+  });
+
+  it("retries network errors by code", () => {
+    expect(policy.nextDelay(1, failure({ code: "ECONNRESET" }))).toBe(500);
+    expect(policy.nextDelay(1, failure({ code: "ERR_BAD_REQUEST" }))).toBeNull();
+    expect(policy.nextDelay(1, failure())).toBeNull();
+  });
+
+  it("gives up after the maximum number of attempts", () => {
+    expect(policy.nextDelay(3, failure({ status: 502 }))).not.toBeNull();
+    expect(policy.nextDelay(4, failure({ status: 502 }))).toBeNull();
+  });
+
+  it("waits as long as Retry-After requests", () => {
+    expect(
+      policy.nextDelay(1, failure({ status: 429, retryAfter: 7000 }))
+    ).toBe(7000);
+  });
+
+  it("gives up when Retry-After exceeds the maximum", () => {
+    expect(
+      policy.nextDelay(1, failure({ status: 429, retryAfter: 120000 }))
+    ).toBeNull();
+    expect(
+      new HttpRetryPolicy({ maxRetryAfter: 180000 }).nextDelay(
+        1,
+        failure({ status: 429, retryAfter: 120000 })
+      )
+    ).toBe(120000);
+  });
+
+  it("uses the configured status and error codes", () => {
+    const custom = new HttpRetryPolicy({
+      retryOnStatus: [418],
+      retryOnErrorCodes: ["EPIPE"],
+      jitter: 0,
+    });
+
+    expect(custom.nextDelay(1, failure({ status: 418 }))).toBe(500);
+    expect(custom.nextDelay(1, failure({ status: 503 }))).toBeNull();
+    expect(custom.nextDelay(1, failure({ code: "EPIPE" }))).toBe(500);
+    expect(custom.nextDelay(1, failure({ code: "ECONNRESET" }))).toBeNull();
+  });
+});
+
+describe("defaultCommandRetryPolicy", () => {
+  const policy = defaultCommandRetryPolicy();
+
+  it("only retries failures where the command was not executed", () => {
+    expect(policy.nextDelay(1, failure({ status: 429 }))).not.toBeNull();
+    expect(policy.nextDelay(1, failure({ code: "ECONNREFUSED" }))).not.toBeNull();
+    expect(policy.nextDelay(1, failure({ code: "EAI_AGAIN" }))).not.toBeNull();
+
+    expect(policy.nextDelay(1, failure({ status: 503 }))).toBeNull();
+    expect(policy.nextDelay(1, failure({ status: 500 }))).toBeNull();
+    expect(policy.nextDelay(1, failure({ code: "ECONNRESET" }))).toBeNull();
+    expect(policy.nextDelay(1, failure({ code: "ETIMEDOUT" }))).toBeNull();
+  });
+
+  it("retries at most twice", () => {
+    expect(policy.nextDelay(2, failure({ status: 429 }))).not.toBeNull();
+    expect(policy.nextDelay(3, failure({ status: 429 }))).toBeNull();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2024-05-01T12:00:00Z");
+
+  it("parses a delay in seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120000);
+    expect(parseRetryAfter(" 0 ", now)).toBe(0);
+  });
+
+  it("parses an HTTP date relative to now", () => {
+    expect(parseRetryAfter("Wed, 01 May 2024 12:00:30 GMT", now)).toBe(30000);
+  });
+
+  it("returns zero for a date in the past", () => {
+    expect(parseRetryAfter("Wed, 01 May 2024 11:00:00 GMT", now)).toBe(0);
+  });
+
+  it("returns null for missing or invalid values", () => {
+    expect(parseRetryAfter(undefined, now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter("", now)).toBeNull();
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter("-5", now)).toBeNull();
+  });
+});
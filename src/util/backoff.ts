@@ -0,0 +1,206 @@
+/**
+ * Backoff, reconnect and retry policies
+ */
+
+/**
+ * Decides whether and when to reconnect after a connection is lost
+ */
+export interface ReconnectPolicy {
+  /**
+   * Delay in milliseconds before the given attempt (starting at 1),
+   * or null to stop reconnecting
+   */
+  nextDelay(attempt: number, lastError: Error | null): number | null;
+}
+
+/**
+ * Exponential backoff options
+ */
+export interface ExponentialBackoffOptions {
+  /** Delay before the first attempt in milliseconds */
+  initialDelay?: number;
+  /** Upper bound for any delay in milliseconds */
+  maxDelay?: number;
+  /** Factor applied to the delay after each attempt */
+  multiplier?: number;
+  /** Fraction of the delay that is randomized, between 0 and 1 */
+  jitter?: number;
+  /** Number of attempts before giving up */
+  maxAttempts?: number;
+}
+
+/**
+ * Compute an exponential backoff delay for an attempt (starting at 1)
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: Required<Omit<ExponentialBackoffOptions, "maxAttempts">>
+): number {
+  const base = Math.min(
+    options.maxDelay,
+    options.initialDelay * Math.pow(options.multiplier, attempt - 1)
+  );
+  const spread = base * Math.min(Math.max(options.jitter, 0), 1);
+  return Math.round(base - spread + Math.random() * spread);
+}
+
+/**
+ * Reconnect policy with exponential backoff and jitter
+ */
+export class ExponentialBackoffPolicy implements ReconnectPolicy {
+  private readonly options: Required<ExponentialBackoffOptions>;
+
+  constructor(options: ExponentialBackoffOptions = {}) {
+    this.options = {
+      initialDelay: options.initialDelay ?? 1000,
+      maxDelay: options.maxDelay ?? 60000,
+      multiplier: options.multiplier ?? 2,
+      jitter: options.jitter ?? 0.5,
+      maxAttempts: options.maxAttempts ?? Infinity,
+    };
+  }
+
+  nextDelay(attempt: number): number | null {
+    if (attempt > this.options.maxAttempts) {
+      return null;
+    }
+    return computeBackoffDelay(attempt, this.options);
+  }
+}
+
+/**
+ * A failed HTTP request that may be retried
+ */
+export interface RequestFailure {
+  method: string;
+  url: string;
+  status: number | null; // null when no response was received
+  code: string | null; // network error code, e.g. ECONNRESET
+  retryAfter: number | null; // milliseconds requested by a Retry-After header
+}
+
+/**
+ * A retry that is about to be made
+ */
+export interface RetryAttempt extends RequestFailure {
+  attempt: number; // retry number, starting at 1
+  delay: number; // milliseconds until the retry
+  message: string; // description of the failure
+}
+
+/**
+ * Decides whether and when to retry a failed HTTP request
+ */
+export interface RetryPolicy {
+  /**
+   * Delay in milliseconds before the given retry (starting at 1),
+   * or null to give up
+   */
+  nextDelay(attempt: number, failure: RequestFailure): number | null;
+}
+
+/**
+ * HTTP retry options
+ */
+export interface HttpRetryOptions extends ExponentialBackoffOptions {
+  /** Status codes that are retried */
+  retryOnStatus?: number[];
+  /** Network error codes that are retried */
+  retryOnErrorCodes?: string[];
+  /** Longest Retry-After delay that is waited for, in milliseconds */
+  maxRetryAfter?: number;
+}
+
+/**
+ * Retry policy with exponential backoff that honors Retry-After
+ */
+export class HttpRetryPolicy implements RetryPolicy {
+  private readonly options: Required<HttpRetryOptions>;
+
+  constructor(options: HttpRetryOptions = {}) {
+    this.options = {
+      initialDelay: options.initialDelay ?? 500,
+      maxDelay: options.maxDelay ?? 10000,
+      multiplier: options.multiplier ?? 2,
+      jitter: options.jitter ?? 0.5,
+      maxAttempts: options.maxAttempts ?? 3,
+      retryOnStatus: options.retryOnStatus ?? [408, 429, 500, 502, 503, 504],
+      retryOnErrorCodes: options.retryOnErrorCodes ?? [
+        "ECONNABORTED",
+        "ECONNREFUSED",
+        "ECONNRESET",
+        "ETIMEDOUT",
+        "EAI_AGAIN",
+        "ERR_NETWORK",
+      ],
+      maxRetryAfter: options.maxRetryAfter ?? 60000,
+    };
+  }
+
+  nextDelay(attempt: number, failure: RequestFailure): number | null {
+    if (attempt > this.options.maxAttempts) {
+      return null;
+    }
+
+    const retryable =
+      failure.status !== null
+        ? this.options.retryOnStatus.includes(failure.status)
+        : failure.code !== null &&
+          this.options.retryOnErrorCodes.includes(failure.code);
+    if (!retryable) {
+      return null;
+    }
+
+    if (failure.retryAfter !== null) {
+      return failure.retryAfter <= this.options.maxRetryAfter
+        ? failure.retryAfter
+        : null;
+    }
+    return computeBackoffDelay(attempt, this.options);
+  }
+}
+
+/**
+ * Default policy for idempotent requests
+ */
+export function defaultRetryPolicy(): RetryPolicy {
+  return new HttpRetryPolicy();
+}
+
+/**
+ * Default policy for commands, only retrying failures where the command
+ * cannot have been executed. 503 is not retried, as a gateway may return it
+ * after the backend handled the request.
+ */
+export function defaultCommandRetryPolicy(): RetryPolicy {
+  return new HttpRetryPolicy({
+    maxAttempts: 2,
+    retryOnStatus: [429],
+    retryOnErrorCodes: ["ECONNREFUSED", "EAI_AGAIN"],
+  });
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) to milliseconds
+ */
+export function parseRetryAfter(
+  header: string | undefined | null,
+  now: number = Date.now()
+): number | null {
+  if (!header) {
+    return null;
+  }
+  const value = header.trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  // HTTP dates start with the day name; Date.parse accepts far more
+  if (!/^[A-Za-z]/.test(value)) {
+    return null;
+  }
+  const date = Date.parse(value);
+  if (isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
@@ -0,0 +1,103 @@
+/**
+ * Sources of account credentials for signing in
+ */
+
+import { promises as fs } from "fs";
+import { AuthFail } from "../exceptions";
+
+/**
+ * Account credentials
+ */
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/**
+ * Supplies credentials when the client has to sign in
+ */
+export interface CredentialProvider {
+  getCredentials(): Promise<Credentials>;
+}
+
+/**
+ * Credential provider returning fixed credentials
+ */
+export class StaticCredentialProvider implements CredentialProvider {
+  private readonly credentials: Credentials;
+
+  constructor(username: string, password: string) {
+    this.credentials = { username, password };
+  }
+
+  async getCredentials(): Promise<Credentials> {
+    return { ...this.credentials };
+  }
+}
+
+/**
+ * Credential provider reading environment variables on each sign in
+ */
+export class EnvCredentialProvider implements CredentialProvider {
+  private readonly usernameVariable: string;
+  private readonly passwordVariable: string;
+
+  constructor(
+    usernameVariable: string = "LAMARZOCCO_USERNAME",
+    passwordVariable: string = "LAMARZOCCO_PASSWORD"
+  ) {
+    this.usernameVariable = usernameVariable;
+    this.passwordVariable = passwordVariable;
+  }
+
+  async getCredentials(): Promise<Credentials> {
+    const username = process.env[this.usernameVariable];
+    const password = process.env[this.passwordVariable];
+    if (!username || !password) {
+      throw new AuthFail(
+        `Environment variables ${this.usernameVariable} and ${this.passwordVariable} must be set`
+      );
+    }
+    return { username, password };
+  }
+}
+
+/**
+ * Credential provider calling a function, e.g. to prompt or query a vault
+ */
+export class CallbackCredentialProvider implements CredentialProvider {
+  private readonly callback: () => Credentials | Promise<Credentials>;
+
+  constructor(callback: () => Credentials | Promise<Credentials>) {
+    this.callback = callback;
+  }
+
+  async getCredentials(): Promise<Credentials> {
+    return await this.callback();
+  }
+}
+
+/**
+ * Credential provider reading a JSON file with username and password on
+ * each sign in
+ */
+export class FileCredentialProvider implements CredentialProvider {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async getCredentials(): Promise<Credentials> {
+    const obj = JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+    if (
+      typeof obj?.username !== "string" ||
+      typeof obj?.password !== "string"
+    ) {
+      throw new AuthFail(
+        `Credentials file ${this.filePath} must contain username and password`
+      );
+    }
+    return { username: obj.username, password: obj.password };
+  }
+}
@@ -0,0 +1,143 @@
+import { WidgetType } from "../const";
+import { BaseWidgetOutput, Widget } from "../models";
+import { diffFields, reduceDashboard, widgetsToConfig } from "./dashboard";
+
+function widget(
+  code: WidgetType,
+  output: Record<string, unknown>,
+  index: number = 1
+): Widget {
+  return { code, index, output: output as BaseWidgetOutput };
+}
+
+describe("diffFields", () => {
+  it("returns no fields for deeply equal values", () => {
+    expect(diffFields({ a: { b: [1, 2] } }, { a: { b: [1, 2] } })).toEqual([]);
+  });
+
+  it("returns dotted paths of nested changes, additions and removals", () => {
+    expect(
+      diffFields(
+        { status: "StandBy", boiler: { target: 93, ready: true }, gone: 1 },
+        { status: "PoweredOn", boiler: { target: 94, ready: true }, added: 2 }
+      ).sort()
+    ).toEqual(["added", "boiler.target", "gone", "status"]);
+  });
+
+  it("treats arrays and dates as leaves", () => {
+    expect(diffFields({ doses: [1, 2] }, { doses: [1, 3] })).toEqual(["doses"]);
+    expect(
+      diffFields({ at: new Date(1000) }, { at: new Date(2000) })
+    ).toEqual(["at"]);
+    expect(diffFields({ at: new Date(1000) }, { at: new Date(1000) })).toEqual(
+      []
+    );
+  });
+
+  it("prefixes paths with the given base path", () => {
+    expect(diffFields({ a: 1 }, { a: 2 }, "output")).toEqual(["output.a"]);
+  });
+});
+
+describe("widgetsToConfig", () => {
+  it("keys widget outputs by widget type", () => {
+    const status = { status: "PoweredOn" };
+    expect(
+      widgetsToConfig([widget(WidgetType.CM_MACHINE_STATUS, status)])
+    ).toEqual({ [WidgetType.CM_MACHINE_STATUS]: status });
+  });
+});
+
+describe("reduceDashboard", () => {
+  const machineStatus = widget(WidgetType.CM_MACHINE_STATUS, {
+    status: "StandBy",
+    mode: "BrewingMode",
+  });
+  const coffeeBoiler = widget(WidgetType.CM_COFFEE_BOILER, {
+    status: "Ready",
+    targetTemperature: 93,
+  });
+  const state = {
+    widgets: [machineStatus, coffeeBoiler],
+    config: widgetsToConfig([machineStatus, coffeeBoiler]),
+  };
+
+  it("replaces updated widgets and reports the changed fields", () => {
+    const updated = widget(WidgetType.CM_MACHINE_STATUS, {
+      status: "PoweredOn",
+      mode: "BrewingMode",
+    });
+
+    const result = reduceDashboard(state, { widgets: [updated] });
+
+    expect(result.widgets).toEqual([updated, coffeeBoiler]);
+    expect(result.config[WidgetType.CM_MACHINE_STATUS]).toBe(updated.output);
+    expect(result.changes).toEqual([
+      {
+        widgetType: WidgetType.CM_MACHINE_STATUS,
+        oldValue: machineStatus.output,
+        newValue: updated.output,
+        changedFields: ["status"],
+      },
+    ]);
+  });
+
+  it("reports nothing when an update repeats the current outputs", () => {
+    const result = reduceDashboard(state, {
+      widgets: [widget(WidgetType.CM_COFFEE_BOILER, { ...coffeeBoiler.output })],
+    });
+
+    expect(result.changes).toEqual([]);
+  });
+
+  it("adds new widgets and removes widgets listed as removed", () => {
+    const steamBoiler = widget(WidgetType.CM_STEAM_BOILER_LEVEL, {
+      status: "Off",
+    });
+
+    const result = reduceDashboard(state, {
+      widgets: [steamBoiler],
+      removedWidgets: [{ code: WidgetType.CM_COFFEE_BOILER, index: 1 }],
+    });
+
+    expect(result.widgets).toEqual([machineStatus, steamBoiler]);
+    expect(result.config[WidgetType.CM_COFFEE_BOILER]).toBeUndefined();
+    expect(result.changes).toEqual([
+      {
+        widgetType: WidgetType.CM_COFFEE_BOILER,
+        oldValue: coffeeBoiler.output,
+        newValue: null,
+        changedFields: ["status", "targetTemperature"],
+      },
+      {
+        widgetType: WidgetType.CM_STEAM_BOILER_LEVEL,
+        oldValue: null,
+        newValue: steamBoiler.output,
+        changedFields: ["status"],
+      },
+    ]);
+  });
+
+  it("only removes the widget with the matching index", () => {
+    const result = reduceDashboard(state, {
+      removedWidgets: [{ code: WidgetType.CM_COFFEE_BOILER, index: 2 }],
+    });
+
+    expect(result.widgets).toEqual(state.widgets);
+    expect(result.changes).toEqual([]);
+  });
+
+  it("starts from an empty dashboard", () => {
+    const result = reduceDashboard({}, { widgets: [machineStatus] });
+
+    expect(result.widgets).toEqual([machineStatus]);
+    expect(result.changes).toHaveLength(1);
+    expect(result.changes[0].oldValue).toBeNull();
+  });
+
+  it("does not modify the previous state", () => {
+    reduceDashboard(state, { removedWidgets: [machineStatus] });
+
+    expect(state.widgets).toEqual([machineStatus, coffeeBoiler]);
+  });
+});
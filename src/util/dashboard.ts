@@ -0,0 +1,129 @@
+/**
+ * Dashboard state reducer for websocket updates
+ */
+
+import { WidgetType } from "../const";
+import { BaseWidget, BaseWidgetOutput, Widget, WidgetChange } from "../models";
+import { deepEqual } from "./generic";
+
+/**
+ * Widgets of a dashboard and their outputs keyed by widget type
+ */
+export interface DashboardState {
+  widgets: Widget[];
+  config: Partial<Record<WidgetType, BaseWidgetOutput>>;
+}
+
+/**
+ * Dashboard state after an update, with the widgets that changed
+ */
+export interface DashboardReduction extends DashboardState {
+  changes: WidgetChange[];
+}
+
+/**
+ * Partial dashboard update as received over the websocket
+ */
+export interface DashboardUpdate {
+  widgets?: Widget[];
+  removedWidgets?: BaseWidget[];
+}
+
+/**
+ * Transform a widgets array into a config object for easy access
+ */
+export function widgetsToConfig(
+  widgets: Widget[]
+): Partial<Record<WidgetType, BaseWidgetOutput>> {
+  const config: Partial<Record<WidgetType, BaseWidgetOutput>> = {};
+  for (const widget of widgets) {
+    if (widget.code && widget.output) {
+      config[widget.code] = widget.output;
+    }
+  }
+  return config;
+}
+
+/**
+ * Dotted paths of the fields that differ between two values
+ */
+export function diffFields(
+  oldValue: unknown,
+  newValue: unknown,
+  path: string = ""
+): string[] {
+  if (deepEqual(oldValue, newValue)) {
+    return [];
+  }
+
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date);
+
+  if (!isRecord(oldValue) || !isRecord(newValue)) {
+    return [path];
+  }
+
+  const keys = new Set([...Object.keys(oldValue), ...Object.keys(newValue)]);
+  const fields: string[] = [];
+  for (const key of keys) {
+    fields.push(
+      ...diffFields(oldValue[key], newValue[key], path ? `${path}.${key}` : key)
+    );
+  }
+  return fields;
+}
+
+/**
+ * Merge a partial update into a dashboard, applying removed widgets,
+ * and report the widgets whose output changed
+ */
+export function reduceDashboard(
+  state: Partial<DashboardState>,
+  update: DashboardUpdate
+): DashboardReduction {
+  const isSameWidget = (a: BaseWidget, b: BaseWidget) =>
+    a.code === b.code && a.index === b.index;
+
+  let widgets = [...(state.widgets || [])];
+
+  for (const widget of update.widgets || []) {
+    const idx = widgets.findIndex((existing) => isSameWidget(existing, widget));
+    if (idx === -1) {
+      widgets.push(widget);
+    } else {
+      widgets[idx] = widget;
+    }
+  }
+
+  const removed = update.removedWidgets || [];
+  widgets = widgets.filter(
+    (widget) => !removed.some((gone) => isSameWidget(gone, widget))
+  );
+
+  const previous = state.config || {};
+  const config = widgetsToConfig(widgets);
+
+  const changes: WidgetChange[] = [];
+  const widgetTypes = new Set([
+    ...Object.keys(previous),
+    ...Object.keys(config),
+  ]) as Set<WidgetType>;
+  for (const widgetType of widgetTypes) {
+    const oldValue = previous[widgetType] ?? null;
+    const newValue = config[widgetType] ?? null;
+    if (deepEqual(oldValue, newValue)) {
+      continue;
+    }
+    changes.push({
+      widgetType,
+      oldValue,
+      newValue,
+      changedFields: diffFields(oldValue ?? {}, newValue ?? {}),
+    });
+  }
+
+  return { widgets, config, changes };
+}
@@ -0,0 +1,108 @@
+/**
+ * Minimal strongly-typed event emitter
+ */
+
+/**
+ * Removes the listener it was returned for
+ */
+export type Unsubscribe = () => void;
+
+/**
+ * Map of event names to listener signatures
+ */
+export type EventMap = { [event: string]: (...args: any[]) => void };
+
+/**
+ * Event emitter with typed event names and listener arguments
+ */
+export class TypedEventEmitter<Events extends EventMap> {
+  private listeners: Map<keyof Events, Set<Events[keyof Events]>> = new Map();
+  // Listeners added with once, by their wrapper
+  private onceListeners: WeakMap<
+    Events[keyof Events],
+    Events[keyof Events]
+  > = new WeakMap();
+
+  /**
+   * Errors thrown by listeners are passed to onListenerError, or written to
+   * the console without one
+   */
+  constructor(
+    private onListenerError?: (event: keyof Events, error: unknown) => void
+  ) {}
+
+  /**
+   * Add a listener for an event
+   */
+  on<K extends keyof Events>(event: K, listener: Events[K]): Unsubscribe {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Add a listener that is removed after its first call
+   */
+  once<K extends keyof Events>(event: K, listener: Events[K]): Unsubscribe {
+    const wrapper = ((...args: Parameters<Events[K]>) => {
+      unsubscribe();
+      listener(...args);
+    }) as Events[K];
+    this.onceListeners.set(wrapper, listener);
+    const unsubscribe = this.on(event, wrapper);
+    return unsubscribe;
+  }
+
+  /**
+   * Remove a listener for an event, whether added with on or once
+   */
+  off<K extends keyof Events>(event: K, listener: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (listeners) {
+      if (!listeners.delete(listener)) {
+        for (const entry of listeners) {
+          if (this.onceListeners.get(entry) === listener) {
+            listeners.delete(entry);
+            break;
+          }
+        }
+      }
+      if (listeners.size === 0) {
+        this.listeners.delete(event);
+      }
+    }
+  }
+
+  /**
+   * Number of listeners registered for an event
+   */
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Call every listener of an event. A throwing listener does not
+   * prevent the others from being called.
+   */
+  emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return;
+    }
+    for (const listener of [...listeners]) {
+      try {
+        listener(...args);
+      } catch (error) {
+        if (this.onListenerError) {
+          this.onListenerError(event, error);
+        } else {
+          console.warn(`Error in ${String(event)} listener:`, error);
+        }
+      }
+    }
+  }
+}
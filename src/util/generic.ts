@@ -3,6 +3,7 @@
  */
 
 import { AxiosResponse } from "axios";
+import { Aborted } from "../exceptions";
 
 /**
  * Check if HTTP response status indicates success (2xx)
@@ -12,10 +13,65 @@ export function isSuccess(response: AxiosResponse): boolean {
 }
 
 /**
- * Sleep for a given number of milliseconds
+ * Sleep for a given number of milliseconds, resolving early if the signal aborts
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Throw Aborted if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal, message?: string): void {
+  if (signal?.aborted) {
+    throw new Aborted(message, signal.reason);
+  }
+}
+
+/**
+ * Settle like the promise, or reject with Aborted as soon as the signal
+ * aborts. The operation behind the promise is not cancelled.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+  message?: string
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Aborted(message, signal.reason));
+      return;
+    }
+    const onAbort = () => reject(new Aborted(message, signal.reason));
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
 }
 
 /**
@@ -25,3 +81,37 @@ export function isDefined<T>(value: T | null | undefined): value is T {
   return value !== null && value !== undefined;
 }
 
+
+/**
+ * Structural equality for JSON-like values
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof Date || b instanceof Date) {
+    return (
+      a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+    );
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord);
+  const bKeys = Object.keys(bRecord);
+  if (aKeys.length !== bKeys.length) {
+    return false;
+  }
+  return aKeys.every(
+    (key) => key in bRecord && deepEqual(aRecord[key], bRecord[key])
+  );
+}
@@ -5,4 +5,12 @@
 export * from "./authentication";
 export * from "./websocket";
 export * from "./generic";
+export * from "./backoff";
+export * from "./events";
+export * from "./stream";
+export * from "./dashboard";
 
+export * from "./tokens";
+export * from "./credentials";
+export * from "./webcrypto";
+export * from "./logger";
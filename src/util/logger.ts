@@ -0,0 +1,58 @@
+/**
+ * Structured logging
+ */
+
+/**
+ * Structured details of a log entry, e.g. serialNumber, url or commandId
+ */
+export type LogContext = Record<string, unknown>;
+
+/**
+ * Receives the log output of the clients
+ */
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+/**
+ * Logger discarding all output, used unless a logger is provided
+ */
+export const noopLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Logger writing to the console, omitting entries below the given level
+ */
+export function consoleLogger(
+  level: "debug" | "info" | "warn" | "error" = "info"
+): Logger {
+  const levels = ["debug", "info", "warn", "error"];
+  const enabled = (entryLevel: string) =>
+    levels.indexOf(entryLevel) >= levels.indexOf(level);
+  const log =
+    (entryLevel: "debug" | "info" | "warn" | "error") =>
+    (message: string, context?: LogContext) => {
+      if (!enabled(entryLevel)) {
+        return;
+      }
+      if (context && Object.keys(context).length > 0) {
+        console[entryLevel](message, context);
+      } else {
+        console[entryLevel](message);
+      }
+    };
+
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Bounded async queue for streaming pushed values to `for await` consumers
+ */
+
+import { UpdateStreamOverflow } from "../exceptions";
+
+const DEFAULT_BUFFER_SIZE = 100;
+
+/**
+ * What to do when a value arrives while the buffer is full
+ */
+export type OverflowStrategy = "dropOldest" | "dropNewest" | "error";
+
+/**
+ * Async queue options
+ */
+export interface AsyncQueueOptions {
+  /** Ends iteration when aborted */
+  signal?: AbortSignal;
+  /** Maximum number of values buffered for a slow consumer */
+  bufferSize?: number;
+  /** Overflow handling, dropping the oldest value by default */
+  overflow?: OverflowStrategy;
+}
+
+/**
+ * Async iterator fed by push(), ending on close() or when the signal aborts
+ */
+export class AsyncQueue<T> implements AsyncIterableIterator<T> {
+  private buffer: T[] = [];
+  private waiters: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (reason?: any) => void;
+  }> = [];
+  private closed = false;
+  private error: Error | null = null;
+  private readonly bufferSize: number;
+  private readonly overflow: OverflowStrategy;
+  private readonly signal?: AbortSignal;
+  private readonly onAbort = () => this.close();
+  public dropped = 0;
+
+  constructor(options: AsyncQueueOptions = {}) {
+    this.bufferSize = Math.max(1, options.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    this.overflow = options.overflow ?? "dropOldest";
+    this.signal = options.signal;
+
+    if (this.signal?.aborted) {
+      this.closed = true;
+    } else {
+      this.signal?.addEventListener("abort", this.onAbort, { once: true });
+    }
+  }
+
+  /**
+   * Number of values waiting to be consumed
+   */
+  get size(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Add a value, handing it straight to a waiting consumer if there is one
+   */
+  push(value: T): void {
+    if (this.closed) {
+      return;
+    }
+
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+      return;
+    }
+
+    if (this.buffer.length >= this.bufferSize) {
+      if (this.overflow === "error") {
+        this.fail(
+          new UpdateStreamOverflow(
+            `More than ${this.bufferSize} updates buffered`
+          )
+        );
+        return;
+      }
+      this.dropped++;
+      if (this.overflow === "dropNewest") {
+        return;
+      }
+      this.buffer.shift();
+    }
+    this.buffer.push(value);
+  }
+
+  /**
+   * End iteration once buffered values are consumed
+   */
+  close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    this.signal?.removeEventListener("abort", this.onAbort);
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+  }
+
+  /**
+   * End iteration with an error, discarding buffered values
+   */
+  fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+    this.buffer = [];
+    const waiters = this.waiters.splice(0);
+    if (waiters.length > 0) {
+      for (const waiter of waiters) {
+        waiter.reject(error);
+      }
+    } else {
+      this.error = error;
+    }
+    this.close();
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      this.error = null;
+      return Promise.reject(error);
+    }
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  async return(): Promise<IteratorResult<T>> {
+    this.buffer = [];
+    this.close();
+    return { value: undefined, done: true };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<T> {
+    return this;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Storage of access tokens across client instances and processes
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { AccessToken } from "./authentication";
+
+/**
+ * Persists access and refresh tokens
+ */
+export interface TokenStore {
+  get(key: string): Promise<AccessToken | null>;
+  set(key: string, token: AccessToken): Promise<void>;
+  clear(key: string): Promise<void>;
+}
+
+/**
+ * Key of the tokens of an account used from an installation
+ */
+export function tokenStoreKey(
+  username: string,
+  installationId: string
+): string {
+  return `${username}:${installationId}`;
+}
+
+/**
+ * Token store keeping tokens in memory, e.g. to share them between clients
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens: Map<string, AccessToken> = new Map();
+
+  async get(key: string): Promise<AccessToken | null> {
+    return this.tokens.get(key) ?? null;
+  }
+
+  async set(key: string, token: AccessToken): Promise<void> {
+    this.tokens.set(key, { ...token });
+  }
+
+  async clear(key: string): Promise<void> {
+    this.tokens.delete(key);
+  }
+}
+
+// Makes temporary file names unique across writes of this process
+let tmpFileCounter = 0;
+
+/**
+ * Token store keeping tokens in a JSON file readable only by the owner.
+ * Changes made through one store are applied one at a time.
+ */
+export class FileTokenStore implements TokenStore {
+  private readonly filePath: string;
+  private updates: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(key: string): Promise<AccessToken | null> {
+    const tokens = await this.read();
+    return tokens[key] ?? null;
+  }
+
+  async set(key: string, token: AccessToken): Promise<void> {
+    await this.update((tokens) => {
+      tokens[key] = token;
+      return true;
+    });
+  }
+
+  async clear(key: string): Promise<void> {
+    await this.update((tokens) => key in tokens && delete tokens[key]);
+  }
+
+  /**
+   * Read, modify and write the file after earlier updates completed. The
+   * file is written if modify returns true.
+   */
+  private update(
+    modify: (tokens: Record<string, AccessToken>) => boolean
+  ): Promise<void> {
+    const result = this.updates.then(async () => {
+      const tokens = await this.read();
+      if (modify(tokens)) {
+        await this.write(tokens);
+      }
+    });
+    this.updates = result.catch(() => undefined);
+    return result;
+  }
+
+  private async read(): Promise<Record<string, AccessToken>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  private async write(tokens: Record<string, AccessToken>): Promise<void> {
+    // Write to a temporary file first so readers never see a partial file
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.${++tmpFileCounter}.tmp`;
+    try {
+      await fs.writeFile(tmpPath, JSON.stringify(tokens, null, 2), {
+        mode: 0o600,
+      });
+      await fs.rename(tmpPath, this.filePath);
+    } catch (error) {
+      await fs.rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+}
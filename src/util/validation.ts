@@ -0,0 +1,261 @@
+/**
+ * Runtime validation of API responses
+ */
+
+import { ValidationIssue } from "../exceptions";
+
+/**
+ * How mismatches between a response and its model are handled.
+ * strict: mismatches are errors and fields unknown to the model are dropped.
+ * lenient: mismatches are reported as warnings; received values and unknown
+ * fields are kept.
+ */
+export type ValidationMode = "strict" | "lenient";
+
+/**
+ * State of a single validation run
+ */
+export interface ValidationContext {
+  mode: ValidationMode;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Checks a value found at a path, returning it coerced to the expected type.
+ * Mismatches are recorded in the context and the value is returned as
+ * received.
+ */
+export interface Validator<T> {
+  (value: unknown, path: string, context: ValidationContext): T;
+  optional?: boolean; // missing values are not reported
+}
+
+/**
+ * Validators for each property of an object model
+ */
+export type ValidatorShape<T> = {
+  [K in keyof T]-?: Validator<T[K] | undefined>;
+};
+
+/**
+ * Path of a property below a path
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Short description of a value for mismatch messages
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "string") {
+    return `string "${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  }
+  return typeof value;
+}
+
+/**
+ * Record a mismatch and return the value as received
+ */
+function mismatch<T>(
+  value: unknown,
+  path: string,
+  context: ValidationContext,
+  expected: string
+): T {
+  context.issues.push({
+    path,
+    message:
+      value === undefined
+        ? `missing required ${expected}`
+        : `expected ${expected}, received ${describe(value)}`,
+  });
+  return value as T;
+}
+
+/**
+ * A string
+ */
+export function string(): Validator<string> {
+  return (value, path, context) =>
+    typeof value === "string"
+      ? value
+      : mismatch(value, path, context, "string");
+}
+
+/**
+ * A finite number, coerced from numeric strings
+ */
+export function number(): Validator<number> {
+  return (value, path, context) => {
+    if (typeof value === "number" && Number.isFinite(value)) {
+      return value;
+    }
+    if (typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+      return Number(value);
+    }
+    return mismatch(value, path, context, "number");
+  };
+}
+
+/**
+ * A boolean, coerced from "true" and "false"
+ */
+export function boolean(): Validator<boolean> {
+  return (value, path, context) => {
+    if (typeof value === "boolean") {
+      return value;
+    }
+    if (value === "true" || value === "false") {
+      return value === "true";
+    }
+    return mismatch(value, path, context, "boolean");
+  };
+}
+
+/**
+ * A point in time, coerced from epoch milliseconds or a date string
+ */
+export function date(): Validator<Date> {
+  return (value, path, context) => {
+    if (value instanceof Date && !isNaN(value.getTime())) {
+      return value;
+    }
+    let time = NaN;
+    if (typeof value === "number") {
+      time = value;
+    } else if (typeof value === "string") {
+      time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    }
+    return Number.isFinite(time)
+      ? new Date(time)
+      : mismatch(value, path, context, "date");
+  };
+}
+
+/**
+ * One of the values of a string enum
+ */
+export function oneOf<T extends string>(
+  values: Record<string, T>
+): Validator<T> {
+  const allowed = new Set<string>(Object.values(values));
+  return (value, path, context) =>
+    typeof value === "string" && allowed.has(value)
+      ? (value as T)
+      : mismatch(value, path, context, `one of ${[...allowed].join(", ")}`);
+}
+
+/**
+ * Exactly the given string
+ */
+export function literal<T extends string>(expected: T): Validator<T> {
+  return (value, path, context) =>
+    value === expected
+      ? expected
+      : mismatch(value, path, context, `"${expected}"`);
+}
+
+/**
+ * Any value, passed through unchecked
+ */
+export function unknown(): Validator<any> {
+  return (value) => value;
+}
+
+/**
+ * A value that may be missing
+ */
+export function optional<T>(
+  validator: Validator<T>
+): Validator<T | undefined> {
+  const result: Validator<T | undefined> = (value, path, context) =>
+    value === undefined ? undefined : validator(value, path, context);
+  result.optional = true;
+  return result;
+}
+
+/**
+ * A value that may be null
+ */
+export function nullable<T>(validator: Validator<T>): Validator<T | null> {
+  const result: Validator<T | null> = (value, path, context) =>
+    value === null ? null : validator(value, path, context);
+  result.optional = validator.optional;
+  return result;
+}
+
+/**
+ * An array whose items match a validator
+ */
+export function array<T>(item: Validator<T>): Validator<T[]> {
+  return (value, path, context) => {
+    if (!Array.isArray(value)) {
+      return mismatch(value, path, context, "array");
+    }
+    return value.map((entry, index) =>
+      item(entry, joinPath(path, index), context)
+    );
+  };
+}
+
+/**
+ * An object with values keyed by arbitrary strings
+ */
+export function record<T>(
+  item: Validator<T>
+): Validator<Record<string, T>> {
+  return (value, path, context) => {
+    if (!isPlainObject(value)) {
+      return mismatch(value, path, context, "object");
+    }
+    const result: Record<string, T> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      result[key] = item(entry, joinPath(path, key), context);
+    }
+    return result;
+  };
+}
+
+/**
+ * An object with the given properties. Unknown properties are kept in
+ * lenient mode or with passthrough, and dropped otherwise.
+ */
+export function object<T>(
+  shape: ValidatorShape<T>,
+  options: { passthrough?: boolean } = {}
+): Validator<T> {
+  const entries = Object.entries(shape) as [string, Validator<unknown>][];
+  return (value, path, context) => {
+    if (!isPlainObject(value)) {
+      return mismatch(value, path, context, "object");
+    }
+
+    const keep = options.passthrough || context.mode === "lenient";
+    const result: Record<string, unknown> = keep ? { ...value } : {};
+    for (const [key, validator] of entries) {
+      const entry = value[key];
+      if (entry === undefined && validator.optional) {
+        continue;
+      }
+      const checked = validator(entry, joinPath(path, key), context);
+      if (checked !== undefined) {
+        result[key] = checked;
+      }
+    }
+    return result as T;
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
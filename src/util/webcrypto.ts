@@ -0,0 +1,388 @@
+/**
+ * Authentication on top of WebCrypto (globalThis.crypto.subtle) for runtimes
+ * without Node's crypto module
+ *
+ * Produces the same DER encoded keys and signatures as the Node
+ * implementation, so keys and requests are interchangeable between both.
+ */
+
+import {
+  InstallationKeyProblem,
+  InvalidInstallationKey,
+  LaMarzoccoError,
+} from "../exceptions";
+import {
+  AuthenticationBackend,
+  InstallationKey,
+  InstallationKeyJSON,
+  invalidKeyError,
+  parseInstallationKeyJSON,
+} from "./authentication";
+// Type declarations only, the implementation is taken from globalThis
+import type { webcrypto } from "crypto";
+
+type CryptoKey = webcrypto.CryptoKey;
+type CryptoKeyPair = webcrypto.CryptoKeyPair;
+type SubtleCrypto = webcrypto.SubtleCrypto;
+type Crypto = webcrypto.Crypto;
+
+const EC_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" };
+const SIGN_ALGORITHM = { name: "ECDSA", hash: "SHA-256" };
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const encoder = new TextEncoder();
+
+// Imported signing keys by their DER encoding
+const signingKeys: WeakMap<Uint8Array, Promise<CryptoKey>> = new WeakMap();
+
+/**
+ * The runtime's global crypto object. Cast through unknown, as the DOM lib
+ * declares a Crypto type of its own.
+ */
+function runtimeCrypto(): Crypto | undefined {
+  return (globalThis as unknown as { crypto?: Crypto }).crypto;
+}
+
+/**
+ * Get the WebCrypto implementation of the runtime
+ */
+function subtle(): SubtleCrypto {
+  const webCrypto = runtimeCrypto();
+  if (!webCrypto?.subtle) {
+    throw new LaMarzoccoError("WebCrypto is not available in this runtime");
+  }
+  return webCrypto.subtle;
+}
+
+/**
+ * Check whether the runtime provides WebCrypto
+ */
+export function isWebCryptoAvailable(): boolean {
+  return typeof runtimeCrypto()?.subtle === "object";
+}
+
+/**
+ * Base64 encode bytes
+ */
+function b64(data: Uint8Array): string {
+  let binary = "";
+  for (const byte of data) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Base64 decode a string
+ */
+function fromB64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Concatenate byte arrays
+ */
+function concat(...parts: ArrayLike<number>[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await subtle().digest("SHA-256", data));
+}
+
+/**
+ * Encode an unsigned big-endian integer as DER INTEGER
+ */
+function derInteger(bytes: Uint8Array): Uint8Array {
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) {
+    start++;
+  }
+  let value = bytes.subarray(start);
+  if (value[0] & 0x80) {
+    value = concat([0x00], value);
+  }
+  return concat([0x02, value.length], value);
+}
+
+/**
+ * Convert a raw r || s ECDSA signature to the DER encoding used by Node
+ */
+function signatureToDer(signature: Uint8Array): Uint8Array {
+  const half = signature.length / 2;
+  const body = concat(
+    derInteger(signature.subarray(0, half)),
+    derInteger(signature.subarray(half))
+  );
+  return concat([0x30, body.length], body);
+}
+
+/**
+ * Import a PKCS#8 DER encoded P-256 private key for signing
+ */
+function importSigningKey(privateKey: Uint8Array): Promise<CryptoKey> {
+  const cached = signingKeys.get(privateKey);
+  if (cached) {
+    return cached;
+  }
+  const key = subtle().importKey("pkcs8", privateKey, EC_ALGORITHM, true, [
+    "sign",
+  ]);
+  signingKeys.set(privateKey, key);
+  return key;
+}
+
+/**
+ * Export the SPKI DER encoded public key of a private key
+ */
+async function exportPublicKeyDer(
+  privateKey: Uint8Array
+): Promise<Uint8Array> {
+  const jwk = await subtle().exportKey(
+    "jwk",
+    await importSigningKey(privateKey)
+  );
+  const publicKey = await subtle().importKey(
+    "jwk",
+    { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y },
+    EC_ALGORITHM,
+    true,
+    ["verify"]
+  );
+  return new Uint8Array(await subtle().exportKey("spki", publicKey));
+}
+
+/**
+ * Derive secret bytes from installation ID and public key
+ */
+async function deriveSecretBytes(
+  installationId: string,
+  pubDerBytes: Uint8Array
+): Promise<Uint8Array> {
+  const instHashB64 = b64(await sha256(encoder.encode(installationId)));
+  const triple = `${installationId}.${b64(pubDerBytes)}.${instHashB64}`;
+  return await sha256(encoder.encode(triple)); // 32 bytes
+}
+
+/**
+ * Get public key in base64-encoded DER format
+ */
+export async function getPublicKeyB64WebCrypto(
+  installationKey: InstallationKey
+): Promise<string> {
+  return b64(await exportPublicKeyDer(installationKey.privateKey));
+}
+
+/**
+ * Get base string: installation_id.sha256(public_key_der_bytes)
+ */
+export async function getBaseStringWebCrypto(
+  installationKey: InstallationKey
+): Promise<string> {
+  const publicKeyDer = await exportPublicKeyDer(installationKey.privateKey);
+  const pubHashB64 = b64(await sha256(publicKeyDer));
+  return `${installationKey.installationId}.${pubHashB64}`;
+}
+
+/**
+ * La Marzocco's custom proof generation algorithm
+ */
+export async function generateRequestProofWebCrypto(
+  baseString: string,
+  secret32: Uint8Array
+): Promise<string> {
+  if (secret32.length !== 32) {
+    throw new Error("secret must be 32 bytes");
+  }
+
+  const work = new Uint8Array(secret32); // Make mutable copy
+
+  for (const byteVal of encoder.encode(baseString)) {
+    const idx = byteVal % 32;
+    const shiftIdx = (idx + 1) % 32;
+    const shiftAmount = work[shiftIdx] & 7; // 0-7 bit shift
+
+    // XOR then rotate left
+    const xorResult = byteVal ^ work[idx];
+    work[idx] =
+      ((xorResult << shiftAmount) | (xorResult >> (8 - shiftAmount))) & 0xff;
+  }
+
+  return b64(await sha256(work));
+}
+
+/**
+ * Generate extra headers for normal API calls after authentication
+ */
+export async function generateExtraRequestHeadersWebCrypto(
+  installationKey: InstallationKey
+): Promise<Record<string, string>> {
+  subtle(); // fails with LaMarzoccoError unless WebCrypto is available
+  const nonce = runtimeCrypto()!.randomUUID().toLowerCase();
+  const timestamp = Date.now().toString(); // milliseconds
+
+  const proofInput = `${installationKey.installationId}.${nonce}.${timestamp}`;
+  const proof = await generateRequestProofWebCrypto(
+    proofInput,
+    installationKey.secret
+  );
+
+  const signature = await subtle().sign(
+    SIGN_ALGORITHM,
+    await importSigningKey(installationKey.privateKey),
+    encoder.encode(`${proofInput}.${proof}`)
+  );
+
+  return {
+    "X-App-Installation-Id": installationKey.installationId,
+    "X-Timestamp": timestamp,
+    "X-Nonce": nonce,
+    "X-Request-Signature": b64(signatureToDer(new Uint8Array(signature))),
+  };
+}
+
+/**
+ * Generate the key material from installation ID
+ */
+export async function generateInstallationKeyWebCrypto(
+  installationId: string
+): Promise<InstallationKey> {
+  const keyPair = (await subtle().generateKey(EC_ALGORITHM, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+  const privateKey = new Uint8Array(
+    await subtle().exportKey("pkcs8", keyPair.privateKey)
+  );
+  const publicKey = new Uint8Array(
+    await subtle().exportKey("spki", keyPair.publicKey)
+  );
+
+  return {
+    installationId,
+    secret: await deriveSecretBytes(installationId, publicKey),
+    privateKey,
+  };
+}
+
+/**
+ * Check that key material is usable, see validateInstallationKey
+ */
+export async function validateInstallationKeyWebCrypto(
+  key: InstallationKey
+): Promise<InstallationKeyProblem[]> {
+  const problems: InstallationKeyProblem[] = [];
+
+  if (!UUID_PATTERN.test(key.installationId)) {
+    problems.push({ field: "installationId", message: "not a UUID" });
+  }
+
+  let publicKeyDer: Uint8Array | null = null;
+  try {
+    publicKeyDer = await exportPublicKeyDer(key.privateKey);
+  } catch (error) {
+    problems.push({
+      field: "privateKey",
+      message: "not a PKCS#8 DER encoded P-256 private key",
+    });
+  }
+
+  if (key.secret.length !== 32) {
+    problems.push({
+      field: "secret",
+      message: `expected 32 bytes, got ${key.secret.length}`,
+    });
+  } else if (publicKeyDer) {
+    const expected = await deriveSecretBytes(key.installationId, publicKeyDer);
+    if (expected.some((byte, i) => byte !== key.secret[i])) {
+      problems.push({
+        field: "secret",
+        message: "does not match installation id and private key",
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Serialize installation key to JSON. Encryption requires Node's crypto
+ * module for scrypt.
+ */
+export async function installationKeyToJSONWebCrypto(
+  key: InstallationKey,
+  passphrase?: string
+): Promise<string> {
+  if (passphrase !== undefined) {
+    throw new LaMarzoccoError(
+      "Encrypting installation keys requires Node's crypto module"
+    );
+  }
+  const obj: InstallationKeyJSON = {
+    secret: b64(key.secret),
+    privateKey: b64(key.privateKey),
+    installationId: key.installationId,
+  };
+  if (key.registeredAt) {
+    obj.registeredAt = key.registeredAt.toISOString();
+  }
+  return JSON.stringify(obj);
+}
+
+/**
+ * Deserialize and validate installation key from JSON. Decryption requires
+ * Node's crypto module for scrypt.
+ */
+export async function installationKeyFromJSONWebCrypto(
+  json: string
+): Promise<InstallationKey> {
+  const obj = JSON.parse(json);
+  if (obj && typeof obj === "object" && "version" in obj) {
+    throw new InvalidInstallationKey(
+      "ciphertext" in obj
+        ? "Decrypting installation keys requires Node's crypto module"
+        : `Unsupported installation key format version ${obj.version}`
+    );
+  }
+
+  const key = parseInstallationKeyJSON(obj, fromB64);
+  const problems = await validateInstallationKeyWebCrypto(key);
+  if (problems.length > 0) {
+    throw invalidKeyError(problems);
+  }
+  return key;
+}
+
+/**
+ * Authentication backend using WebCrypto
+ */
+export const webCryptoAuthenticationBackend: AuthenticationBackend = {
+  generateInstallationKey: generateInstallationKeyWebCrypto,
+  getPublicKeyB64: getPublicKeyB64WebCrypto,
+  getBaseString: getBaseStringWebCrypto,
+  generateRequestProof: generateRequestProofWebCrypto,
+  generateExtraRequestHeaders: generateExtraRequestHeadersWebCrypto,
+  installationKeyToJSON: installationKeyToJSONWebCrypto,
+  installationKeyFromJSON: async (json, passphrase) => {
+    if (passphrase !== undefined) {
+      throw new InvalidInstallationKey(
+        "Decrypting installation keys requires Node's crypto module"
+      );
+    }
+    return await installationKeyFromJSONWebCrypto(json);
+  },
+};
@@ -0,0 +1,149 @@
+import { StompMessageType } from "../const";
+import { MalformedStompFrame } from "../exceptions";
+import {
+  StompFrameDecoder,
+  decodeStompWsMessage,
+  encodeStompWsMessage,
+  negotiateHeartbeat,
+} from "./websocket";
+
+describe("StompFrameDecoder", () => {
+  it("buffers a frame split across messages", () => {
+    const decoder = new StompFrameDecoder();
+    decoder.push("MESSAGE\ndestination:/ws/sn/SN1/dash");
+    expect(decoder.read()).toBeNull();
+    decoder.push("board\n\n{\"connected\":");
+    expect(decoder.read()).toBeNull();
+    decoder.push("true}\x00");
+
+    expect(decoder.read()).toEqual({
+      msgType: StompMessageType.MESSAGE,
+      headers: { destination: "/ws/sn/SN1/dashboard" },
+      data: '{"connected":true}',
+    });
+    expect(decoder.bufferedBytes).toBe(0);
+  });
+
+  it("reads every frame of a message and skips heart-beats between them", () => {
+    const decoder = new StompFrameDecoder();
+    decoder.push(
+      "\nCONNECTED\nversion:1.2\n\n\x00\r\n\nMESSAGE\nsubscription:0\n\nbody\x00\n"
+    );
+
+    const frames = decoder.readAll();
+    expect(frames.map((frame) => frame.msgType)).toEqual([
+      StompMessageType.CONNECTED,
+      StompMessageType.MESSAGE,
+    ]);
+    expect(frames[1].data).toBe("body");
+    expect(decoder.bufferedBytes).toBe(0);
+  });
+
+  it("keeps NUL octets in a body framed by content-length", () => {
+    const decoder = new StompFrameDecoder();
+    decoder.push("MESSAGE\ncontent-length:7\n\nab\x00cd\x00");
+    expect(decoder.read()).toBeNull();
+    decoder.push("e\x00");
+
+    const frame = decoder.read();
+    expect(frame?.data).toBe("ab\x00cd\x00e");
+  });
+
+  it("counts content-length in bytes, not characters", () => {
+    const body = "caffè";
+    const decoder = new StompFrameDecoder();
+    decoder.push(
+      `MESSAGE\ncontent-length:${Buffer.byteLength(body)}\n\n${body}\x00`
+    );
+
+    expect(decoder.read()?.data).toBe(body);
+  });
+
+  it("accepts CRLF line endings", () => {
+    const frame = decodeStompWsMessage(
+      "MESSAGE\r\nsubscription:0\r\nmessage-id:1\r\n\r\n{}\x00"
+    );
+
+    expect(frame.headers).toEqual({ subscription: "0", "message-id": "1" });
+    expect(frame.data).toBe("{}");
+  });
+
+  it("unescapes headers except for CONNECT and CONNECTED frames", () => {
+    expect(
+      decodeStompWsMessage("MESSAGE\nkey\\cname:a\\\\b\\nc\\rd\n\n\x00").headers
+    ).toEqual({ "key:name": "a\\b\nc\rd" });
+    expect(
+      decodeStompWsMessage("CONNECTED\nserver:a\\cb\n\n\x00").headers
+    ).toEqual({ server: "a\\cb" });
+  });
+
+  it("uses the first occurrence of a repeated header", () => {
+    const frame = decodeStompWsMessage("MESSAGE\nfoo:first\nfoo:second\n\n\x00");
+    expect(frame.headers.foo).toBe("first");
+  });
+
+  it("rejects invalid escape sequences and discards the buffer", () => {
+    const decoder = new StompFrameDecoder();
+    decoder.push("MESSAGE\nfoo:a\\tb\n\n\x00");
+
+    expect(() => decoder.read()).toThrow(MalformedStompFrame);
+    expect(decoder.bufferedBytes).toBe(0);
+  });
+
+  it("rejects unknown commands and frames ending inside the headers", () => {
+    expect(() => decodeStompWsMessage("HELLO\n\n\x00")).toThrow(
+      "Unknown STOMP command: HELLO"
+    );
+    expect(() => decodeStompWsMessage("MESSAGE\nfoo:bar\x00")).toThrow(
+      MalformedStompFrame
+    );
+  });
+
+  it("rejects a body not terminated by NUL after content-length", () => {
+    expect(() =>
+      decodeStompWsMessage("MESSAGE\ncontent-length:2\n\nabc\x00")
+    ).toThrow("not terminated by NUL");
+  });
+
+  it("rejects frames larger than the limit", () => {
+    const decoder = new StompFrameDecoder({ maxFrameBytes: 16 });
+    decoder.push("MESSAGE\n\n" + "x".repeat(32));
+
+    expect(() => decoder.read()).toThrow("Frame exceeds 16 bytes");
+  });
+
+  it("decodes what the encoder produces", () => {
+    const headers = { destination: "/a:b", "x-note": "line\nbreak" };
+    const frame = decodeStompWsMessage(
+      encodeStompWsMessage(StompMessageType.SEND, headers, "a\x00b")
+    );
+
+    expect(frame.msgType).toBe(StompMessageType.SEND);
+    expect(frame.headers).toEqual({ ...headers, "content-length": "3" });
+    expect(frame.data).toBe("a\x00b");
+  });
+});
+
+describe("negotiateHeartbeat", () => {
+  it("uses the larger interval when both sides want heart-beats", () => {
+    expect(
+      negotiateHeartbeat({ outgoing: 10000, incoming: 5000 }, "20000,1000")
+    ).toEqual({ outgoing: 10000, incoming: 20000 });
+  });
+
+  it("disables directions either side does not support", () => {
+    expect(negotiateHeartbeat({ outgoing: 10000, incoming: 0 }, "0,5000")).toEqual(
+      { outgoing: 10000, incoming: 0 }
+    );
+    expect(negotiateHeartbeat({ outgoing: 10000, incoming: 10000 })).toEqual({
+      outgoing: 0,
+      incoming: 0,
+    });
+  });
+
+  it("rejects a malformed header", () => {
+    expect(() =>
+      negotiateHeartbeat({ outgoing: 1, incoming: 1 }, "fast")
+    ).toThrow(MalformedStompFrame);
+  });
+});
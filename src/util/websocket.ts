@@ -3,6 +3,110 @@
  */
 
 import { StompMessageType } from "../const";
+import { MalformedStompFrame } from "../exceptions";
+import { HeartbeatSettings } from "../models";
+
+const NUL = 0x00;
+const LF = 0x0a;
+const CR = 0x0d;
+
+const DEFAULT_MAX_FRAME_BYTES = 1024 * 1024; // 1 MiB
+
+/**
+ * Heart-beat sent between frames
+ */
+export const STOMP_HEARTBEAT = "\n";
+
+/**
+ * Commands whose headers are sent without escaping (STOMP 1.2, "Value Encoding")
+ */
+const UNESCAPED_COMMANDS: ReadonlySet<string> = new Set([
+  StompMessageType.CONNECT,
+  StompMessageType.CONNECTED,
+]);
+
+const KNOWN_COMMANDS: ReadonlySet<string> = new Set(
+  Object.values(StompMessageType)
+);
+
+/**
+ * A single decoded STOMP frame
+ */
+export interface StompFrame {
+  msgType: StompMessageType;
+  headers: Record<string, string>;
+  data: string | null;
+}
+
+/**
+ * Raw data as delivered by a WebSocket message event
+ */
+export type StompChunk = string | Buffer | ArrayBuffer | Buffer[];
+
+/**
+ * Options for the streaming STOMP decoder
+ */
+export interface StompFrameDecoderOptions {
+  /** Largest frame (headers and body) that will be buffered */
+  maxFrameBytes?: number;
+}
+
+/**
+ * Escape a header key or value
+ */
+function escapeHeader(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r/g, "\\r")
+    .replace(/\n/g, "\\n")
+    .replace(/:/g, "\\c");
+}
+
+/**
+ * Unescape a header key or value
+ */
+function unescapeHeader(value: string): string {
+  let result = "";
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char !== "\\") {
+      result += char;
+      continue;
+    }
+
+    const next = value[++i];
+    if (next === "\\") {
+      result += "\\";
+    } else if (next === "r") {
+      result += "\r";
+    } else if (next === "n") {
+      result += "\n";
+    } else if (next === "c") {
+      result += ":";
+    } else {
+      throw new MalformedStompFrame(
+        `Invalid escape sequence in header: \\${next ?? ""}`
+      );
+    }
+  }
+  return result;
+}
+
+/**
+ * Convert WebSocket message data to a buffer
+ */
+function toBuffer(chunk: StompChunk): Buffer {
+  if (typeof chunk === "string") {
+    return Buffer.from(chunk, "utf-8");
+  }
+  if (Array.isArray(chunk)) {
+    return Buffer.concat(chunk);
+  }
+  if (Buffer.isBuffer(chunk)) {
+    return chunk;
+  }
+  return Buffer.from(chunk);
+}
 
 /**
  * Encode STOMP WebSocket message
@@ -12,11 +116,20 @@ export function encodeStompWsMessage(
   headers: Record<string, string>,
   body?: string
 ): string {
+  const escape = UNESCAPED_COMMANDS.has(msgType)
+    ? (value: string) => value
+    : escapeHeader;
+
   const fragments: string[] = [];
   fragments.push(msgType.toString());
 
   for (const [key, value] of Object.entries(headers)) {
-    fragments.push(`${key}:${value}`);
+    fragments.push(`${escape(key)}:${escape(value)}`);
+  }
+
+  // A body containing NUL octets can only be framed with a content-length
+  if (body && body.includes("\x00") && !("content-length" in headers)) {
+    fragments.push(`content-length:${Buffer.byteLength(body, "utf-8")}`);
   }
 
   let msg = fragments.join("\n");
@@ -31,35 +144,249 @@ export function encodeStompWsMessage(
 }
 
 /**
- * Decode STOMP WebSocket message
+ * Format heart-beat settings as a STOMP heart-beat header value
  */
-export function decodeStompWsMessage(
-  msg: string
-): {
-  msgType: StompMessageType;
-  headers: Record<string, string>;
-  data: string | null;
-} {
-  const [header, data] = msg.split("\n\n", 2);
-  const headers: Record<string, string> = {};
-  const metadata = header.split("\n");
-
-  const msgType = metadata[0] as StompMessageType;
-
-  for (let i = 1; i < metadata.length; i++) {
-    const colonIdx = metadata[i].indexOf(":");
-    if (colonIdx > 0) {
-      const key = metadata[i].substring(0, colonIdx);
-      const value = metadata[i].substring(colonIdx + 1);
-      headers[key] = value;
+export function formatHeartbeatHeader(heartbeat: HeartbeatSettings): string {
+  return `${heartbeat.outgoing},${heartbeat.incoming}`;
+}
+
+/**
+ * Negotiate heart-beat intervals from the heart-beat header of a CONNECTED frame
+ */
+export function negotiateHeartbeat(
+  requested: HeartbeatSettings,
+  serverHeader?: string
+): HeartbeatSettings {
+  let serverOutgoing = 0;
+  let serverIncoming = 0;
+
+  if (serverHeader !== undefined) {
+    const match = /^\s*(\d+)\s*,\s*(\d+)\s*$/.exec(serverHeader);
+    if (!match) {
+      throw new MalformedStompFrame(
+        `Invalid heart-beat header: ${serverHeader}`
+      );
     }
+    serverOutgoing = parseInt(match[1], 10);
+    serverIncoming = parseInt(match[2], 10);
   }
 
-  let processedData = data || null;
-  if (processedData && processedData.endsWith("\x00")) {
-    processedData = processedData.slice(0, -1);
-  }
+  return {
+    outgoing:
+      requested.outgoing > 0 && serverIncoming > 0
+        ? Math.max(requested.outgoing, serverIncoming)
+        : 0,
+    incoming:
+      requested.incoming > 0 && serverOutgoing > 0
+        ? Math.max(requested.incoming, serverOutgoing)
+        : 0,
+  };
+}
 
-  return { msgType, headers, data: processedData };
+/**
+ * Decode STOMP WebSocket message containing a single frame
+ */
+export function decodeStompWsMessage(msg: string): StompFrame {
+  const decoder = new StompFrameDecoder();
+  decoder.push(msg.endsWith("\x00") ? msg : `${msg}\x00`);
+
+  const frame = decoder.read();
+  if (!frame) {
+    throw new MalformedStompFrame("Incomplete STOMP frame");
+  }
+  return frame;
 }
 
+/**
+ * Streaming STOMP 1.2 decoder
+ *
+ * Buffers partial frames across WebSocket messages, yields every frame of a
+ * message carrying several, skips heart-beat EOLs between frames and honors
+ * content-length for bodies containing NUL octets.
+ */
+export class StompFrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly maxFrameBytes: number;
+
+  constructor(options: StompFrameDecoderOptions = {}) {
+    this.maxFrameBytes = options.maxFrameBytes ?? DEFAULT_MAX_FRAME_BYTES;
+  }
+
+  /**
+   * Number of bytes received but not yet decoded into a frame
+   */
+  get bufferedBytes(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Append received data to the decoder
+   */
+  push(chunk: StompChunk): void {
+    const data = toBuffer(chunk);
+    this.buffer =
+      this.buffer.length === 0 ? data : Buffer.concat([this.buffer, data]);
+  }
+
+  /**
+   * Read the next complete frame, or null if more data is needed.
+   * The buffer is discarded when a malformed frame is encountered.
+   */
+  read(): StompFrame | null {
+    try {
+      return this.readFrame();
+    } catch (error) {
+      this.reset();
+      throw error;
+    }
+  }
+
+  /**
+   * Read all complete frames currently buffered
+   */
+  readAll(): StompFrame[] {
+    const frames: StompFrame[] = [];
+    let frame: StompFrame | null;
+    while ((frame = this.read()) !== null) {
+      frames.push(frame);
+    }
+    return frames;
+  }
+
+  /**
+   * Discard all buffered data
+   */
+  reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  private readFrame(): StompFrame | null {
+    this.skipHeartbeats();
+    if (this.buffer.length === 0) {
+      return null;
+    }
+
+    // Command and header lines, terminated by an empty line
+    const lines: string[] = [];
+    let pos = 0;
+    for (;;) {
+      const eol = this.buffer.indexOf(LF, pos);
+      if (eol === -1) {
+        if (this.buffer.indexOf(NUL, pos) !== -1) {
+          throw new MalformedStompFrame("Frame ended before end of headers");
+        }
+        this.checkBufferSize();
+        return null;
+      }
+
+      let lineEnd = eol;
+      if (lineEnd > pos && this.buffer[lineEnd - 1] === CR) {
+        lineEnd--;
+      }
+      const line = this.buffer.toString("utf-8", pos, lineEnd);
+      pos = eol + 1;
+
+      if (line.includes("\x00")) {
+        throw new MalformedStompFrame("Frame ended before end of headers");
+      }
+      if (line === "") {
+        break;
+      }
+      lines.push(line);
+    }
+
+    const command = lines[0];
+    if (!KNOWN_COMMANDS.has(command)) {
+      throw new MalformedStompFrame(`Unknown STOMP command: ${command}`);
+    }
+    const msgType = command as StompMessageType;
+    const unescape = UNESCAPED_COMMANDS.has(command)
+      ? (value: string) => value
+      : unescapeHeader;
+
+    const headers: Record<string, string> = {};
+    for (const line of lines.slice(1)) {
+      const colonIdx = line.indexOf(":");
+      if (colonIdx <= 0) {
+        throw new MalformedStompFrame(`Invalid header line: ${line}`);
+      }
+      const key = unescape(line.substring(0, colonIdx));
+      const value = unescape(line.substring(colonIdx + 1));
+      // Only the first occurrence of a repeated header is used
+      if (!(key in headers)) {
+        headers[key] = value;
+      }
+    }
+
+    // Body, either content-length octets or up to the first NUL
+    let bodyEnd: number;
+    const contentLength = headers["content-length"];
+    if (contentLength !== undefined) {
+      if (!/^\d+$/.test(contentLength)) {
+        throw new MalformedStompFrame(
+          `Invalid content-length: ${contentLength}`
+        );
+      }
+      bodyEnd = pos + parseInt(contentLength, 10);
+      if (bodyEnd + 1 > pos + this.maxFrameBytes) {
+        throw new MalformedStompFrame(
+          `Frame exceeds ${this.maxFrameBytes} bytes`
+        );
+      }
+      if (this.buffer.length <= bodyEnd) {
+        this.checkBufferSize();
+        return null;
+      }
+      if (this.buffer[bodyEnd] !== NUL) {
+        throw new MalformedStompFrame(
+          "Frame body is not terminated by NUL after content-length octets"
+        );
+      }
+    } else {
+      bodyEnd = this.buffer.indexOf(NUL, pos);
+      if (bodyEnd === -1) {
+        this.checkBufferSize();
+        return null;
+      }
+    }
+
+    const data =
+      bodyEnd > pos ? this.buffer.toString("utf-8", pos, bodyEnd) : null;
+    this.buffer = this.buffer.subarray(bodyEnd + 1);
+
+    return { msgType, headers, data };
+  }
+
+  /**
+   * Drop EOLs sent as heart-beats between frames
+   */
+  private skipHeartbeats(): void {
+    let pos = 0;
+    while (pos < this.buffer.length) {
+      if (this.buffer[pos] === LF) {
+        pos++;
+      } else if (this.buffer[pos] === CR) {
+        if (pos + 1 >= this.buffer.length) {
+          break;
+        }
+        if (this.buffer[pos + 1] !== LF) {
+          throw new MalformedStompFrame("Unexpected CR between frames");
+        }
+        pos += 2;
+      } else {
+        break;
+      }
+    }
+    if (pos > 0) {
+      this.buffer = this.buffer.subarray(pos);
+    }
+  }
+
+  private checkBufferSize(): void {
+    if (this.buffer.length > this.maxFrameBytes) {
+      throw new MalformedStompFrame(
+        `Frame exceeds ${this.maxFrameBytes} bytes`
+      );
+    }
+  }
+}